@@ -4,11 +4,20 @@ import {ISafeProtocolRegistry} from "./interfaces/Registry.sol";
 import {Ownable2Step} from "@openzeppelin/contracts/access/Ownable2Step.sol";
 import {IERC165} from "@openzeppelin/contracts/utils/introspection/IERC165.sol";
 import {Enum} from "./common/Enum.sol";
-import {ISafeProtocolFunctionHandler, ISafeProtocolHooks, ISafeProtocolPlugin, ISafeProtocolSignatureValidator, ISafeProtocolSignatureValidatorHooks} from "./interfaces/Modules.sol";
-import {MODULE_TYPE_PLUGIN, MODULE_TYPE_HOOKS, MODULE_TYPE_FUNCTION_HANDLER, MODULE_TYPE_SIGNATURE_VALIDATOR_HOOKS, MODULE_TYPE_SIGNATURE_VALIDATOR} from "./common/Constants.sol";
+import {ModuleInterfaceChecker} from "./base/ModuleInterfaceChecker.sol";
+
+contract SafeProtocolRegistry is ISafeProtocolRegistry, Ownable2Step, ModuleInterfaceChecker {
+    // Start and end of the linked lists of listed modules per module type.
+    address internal constant SENTINEL_MODULES = address(0x1);
 
-contract SafeProtocolRegistry is ISafeProtocolRegistry, Ownable2Step {
     mapping(address => ModuleInfo) public listedModules;
+    // Listing timestamps of module types that were added with updateModuleTypes, by module and module type.
+    // Types listed with addModule use ModuleInfo.listedAt.
+    mapping(address => mapping(uint8 => uint64)) public moduleTypeListedAt;
+    // Optional metadata of a module, e.g. the hash of an audit report or a commitment to its name and version.
+    mapping(address => bytes32) public moduleMetadata;
+    // Doubly linked lists of the modules listed with a module type, by module type and module.
+    mapping(uint8 => mapping(address => ModuleListEntry)) internal moduleLists;
 
     struct ModuleInfo {
         uint64 listedAt;
@@ -16,13 +25,29 @@ contract SafeProtocolRegistry is ISafeProtocolRegistry, Ownable2Step {
         uint8 moduleTypes;
     }
 
+    struct ModuleListEntry {
+        address next;
+        address prev;
+    }
+
     error CannotFlagModule(address module);
+    error CannotUnflagModule(address module);
+    error CannotDelistModule(address module);
+    error CannotUpdateModuleTypes(address module);
+    error CannotSetModuleMetadata(address module);
+    error InvalidModuleAddress(address module);
+    error ZeroPageSizeNotAllowed();
     error ModuleAlreadyListed(address module);
     error InvalidModuleType(address module, uint8 givenModuleType);
-    error ModuleDoesNotSupportExpectedInterfaceId(address module, bytes4 expectedInterfaceId);
 
     event ModuleAdded(address indexed module);
+    // Emitted for every module type a module is listed with by addModule and updateModuleTypes.
+    event ModuleListed(address indexed module, uint8 moduleType);
     event ModuleFlagged(address indexed module);
+    event ModuleUnflagged(address indexed module, uint8 reason);
+    event ModuleDelisted(address indexed module, uint8 reason);
+    event ModuleTypesUpdated(address indexed module, uint8 addedTypes, uint8 moduleTypes);
+    event ModuleMetadataChanged(address indexed module, bytes32 metadata);
 
     constructor(address initialOwner) {
         _transferOwnership(initialOwner);
@@ -31,12 +56,16 @@ contract SafeProtocolRegistry is ISafeProtocolRegistry, Ownable2Step {
     /**
      * @notice This function returns information about a module
      * @param module Address of the module to be checked
-     * @return listedAt Timestamp of listing the module. This value will be 0 if not listed.
+     * @return listedAt Timestamp of listing the module for the module type. For types added with updateModuleTypes this is
+     *         the timestamp of the update. This value will be 0 if not listed.
      * @return flaggedAt Timestamp of falgging the module. This value will be 0 if not flagged.
+     *         An unflagged module returns its original listedAt and a flaggedAt of 0.
+     *         A delisted module returns 0 for both values until it is added again.
      */
     function check(address module, bytes32 data) external view returns (uint64 listedAt, uint64 flaggedAt) {
         ModuleInfo memory moduleInfo = listedModules[module];
-        listedAt = moduleInfo.listedAt;
+        uint64 typeListedAt = moduleTypeListedAt[module][uint8(uint256(data))];
+        listedAt = typeListedAt != 0 ? typeListedAt : moduleInfo.listedAt;
         flaggedAt = moduleInfo.flaggedAt;
 
         // If moduleType is not permitted, return 0 for listedAt and flaggedAt.
@@ -69,37 +98,43 @@ contract SafeProtocolRegistry is ISafeProtocolRegistry, Ownable2Step {
             revert InvalidModuleType(module, moduleTypes);
         }
 
-        optionalCheckInterfaceSupport(module, moduleTypes, MODULE_TYPE_PLUGIN, type(ISafeProtocolPlugin).interfaceId);
-        optionalCheckInterfaceSupport(module, moduleTypes, MODULE_TYPE_FUNCTION_HANDLER, type(ISafeProtocolFunctionHandler).interfaceId);
-        optionalCheckInterfaceSupport(module, moduleTypes, MODULE_TYPE_HOOKS, type(ISafeProtocolHooks).interfaceId);
-        optionalCheckInterfaceSupport(
-            module,
-            moduleTypes,
-            MODULE_TYPE_SIGNATURE_VALIDATOR_HOOKS,
-            type(ISafeProtocolSignatureValidatorHooks).interfaceId
-        );
-        optionalCheckInterfaceSupport(
-            module,
-            moduleTypes,
-            MODULE_TYPE_SIGNATURE_VALIDATOR,
-            type(ISafeProtocolSignatureValidator).interfaceId
-        );
+        checkInterfaceSupport(module, moduleTypes);
 
         listedModules[module] = ModuleInfo(uint64(block.timestamp), 0, moduleTypes);
+        addToModuleLists(module, moduleTypes);
         emit ModuleAdded(module);
     }
 
     /**
-     * @notice This function checks if module supports expected interfaceId. This function will revert if module does not support expected interfaceId.
+     * @notice Allows only owner to add module types to a listed module, e.g. if a plugin later implements a function handler.
+     *         The module has to support the interfaceId of every added type. Flagged modules cannot be updated.
+     *         check() returns the timestamp of this update as listedAt for the added types.
      * @param module Address of the module
-     * @param moduleTypes uint8 representing the types of module
-     * @param moduleTypeToCheck uint8 representing the type of module to check
-     * @param interfaceId bytes4 representing the interfaceId to check
+     * @param addedTypes uint8 indicating the module types to add. None of them may be listed already.
      */
-    function optionalCheckInterfaceSupport(address module, uint8 moduleTypes, uint8 moduleTypeToCheck, bytes4 interfaceId) internal view {
-        if (moduleTypes & moduleTypeToCheck == moduleTypeToCheck && !IERC165(module).supportsInterface(interfaceId)) {
-            revert ModuleDoesNotSupportExpectedInterfaceId(module, interfaceId);
+    function updateModuleTypes(address module, uint8 addedTypes) external onlyOwner {
+        ModuleInfo memory moduleInfo = listedModules[module];
+
+        if (moduleInfo.listedAt == 0 || moduleInfo.flaggedAt != 0) {
+            revert CannotUpdateModuleTypes(module);
+        }
+
+        if (addedTypes == 0 || addedTypes > 31 || moduleInfo.moduleTypes & addedTypes != 0) {
+            revert InvalidModuleType(module, addedTypes);
         }
+
+        checkInterfaceSupport(module, addedTypes);
+
+        for (uint8 moduleType = 1; moduleType <= 16; moduleType <<= 1) {
+            if (addedTypes & moduleType != 0) {
+                moduleTypeListedAt[module][moduleType] = uint64(block.timestamp);
+            }
+        }
+
+        uint8 moduleTypes = moduleInfo.moduleTypes | addedTypes;
+        listedModules[module] = ModuleInfo(moduleInfo.listedAt, 0, moduleTypes);
+        addToModuleLists(module, addedTypes);
+        emit ModuleTypesUpdated(module, addedTypes, moduleTypes);
     }
 
     /**
@@ -119,6 +154,159 @@ contract SafeProtocolRegistry is ISafeProtocolRegistry, Ownable2Step {
         emit ModuleFlagged(module);
     }
 
+    /**
+     * @notice Allows only owner to unflag a module, e.g. if it was flagged by mistake. Only a flagged module can be unflagged.
+     *         The module keeps its listing timestamp and module types and is permitted again.
+     * @param module Address of the module
+     * @param reason uint8 reason code for the unflagging, see REGISTRY_REASON_* in Constants.sol
+     */
+    function unflagModule(address module, uint8 reason) external onlyOwner {
+        ModuleInfo memory moduleInfo = listedModules[module];
+
+        if (moduleInfo.flaggedAt == 0) {
+            revert CannotUnflagModule(module);
+        }
+
+        listedModules[module] = ModuleInfo(moduleInfo.listedAt, 0, moduleInfo.moduleTypes);
+        emit ModuleUnflagged(module, reason);
+    }
+
+    /**
+     * @notice Allows only owner to delist a module. Flagged modules can be delisted as well.
+     *         The module information is deleted, so the module can be added again e.g. with fixed module types.
+     * @param module Address of the module
+     * @param reason uint8 reason code for the delisting, see REGISTRY_REASON_* in Constants.sol
+     */
+    function delistModule(address module, uint8 reason) external onlyOwner {
+        ModuleInfo memory moduleInfo = listedModules[module];
+
+        if (moduleInfo.listedAt == 0) {
+            revert CannotDelistModule(module);
+        }
+
+        removeFromModuleLists(module, moduleInfo.moduleTypes);
+        delete listedModules[module];
+        delete moduleMetadata[module];
+        for (uint8 moduleType = 1; moduleType <= 16; moduleType <<= 1) {
+            delete moduleTypeListedAt[module][moduleType];
+        }
+        emit ModuleDelisted(module, reason);
+    }
+
+    /**
+     * @notice Allows only owner to set the metadata of a listed module, e.g. the hash of an audit report or a commitment
+     *         to its name and version. Setting it to bytes32(0) removes the metadata.
+     * @param module Address of the module
+     * @param metadata bytes32 metadata of the module
+     */
+    function setModuleMetadata(address module, bytes32 metadata) external onlyOwner {
+        if (listedModules[module].listedAt == 0) {
+            revert CannotSetModuleMetadata(module);
+        }
+
+        moduleMetadata[module] = metadata;
+        emit ModuleMetadataChanged(module, metadata);
+    }
+
+    /**
+     * @notice Returns all information the registry stores about a module. Unlike check(), this is independent of the module type.
+     * @param module Address of the module
+     * @return listedAt Timestamp of listing the module. This value will be 0 if not listed.
+     * @return flaggedAt Timestamp of flagging the module. This value will be 0 if not flagged.
+     * @return moduleTypes uint8 indicating the types of module
+     * @return metadata bytes32 metadata of the module, 0 if not set
+     */
+    function getModuleInfo(address module) external view returns (uint64 listedAt, uint64 flaggedAt, uint8 moduleTypes, bytes32 metadata) {
+        ModuleInfo memory moduleInfo = listedModules[module];
+        return (moduleInfo.listedAt, moduleInfo.flaggedAt, moduleInfo.moduleTypes, moduleMetadata[module]);
+    }
+
+    /**
+     * @notice Returns an array of modules listed with a module type, including flagged modules.
+     *         The most recently listed module is returned first.
+     *         If all entries fit into a single page, the next pointer will be 0x1.
+     *         If another page is present, next will be the last element of the returned array.
+     * @param moduleType uint8 representing a single module type
+     * @param start Start of the page. Has to be a module listed with the module type or start pointer (0x1 address)
+     * @param pageSize Maximum number of modules that should be returned. Has to be > 0
+     * @return array Array of modules.
+     * @return next Start of the next page.
+     */
+    function getModulesPaginated(
+        uint8 moduleType,
+        address start,
+        uint256 pageSize
+    ) external view returns (address[] memory array, address next) {
+        if (pageSize == 0) {
+            revert ZeroPageSizeNotAllowed();
+        }
+
+        mapping(address => ModuleListEntry) storage moduleList = moduleLists[moduleType];
+        if (!(start == SENTINEL_MODULES || (start != address(0) && moduleList[start].next != address(0)))) {
+            revert InvalidModuleAddress(start);
+        }
+        // Init array with max page size
+        array = new address[](pageSize);
+
+        // Populate return array
+        uint256 moduleCount = 0;
+        next = moduleList[start].next;
+        while (next != address(0) && next != SENTINEL_MODULES && moduleCount < pageSize) {
+            array[moduleCount] = next;
+            next = moduleList[next].next;
+            moduleCount++;
+        }
+
+        // The list of a module type is not initialised until the first module is listed with it.
+        if (moduleCount == 0) {
+            next = SENTINEL_MODULES;
+        }
+
+        // See SafeProtocolManager.getPluginsPaginated(...) for why next is the last element of the page.
+        if (next != SENTINEL_MODULES && moduleCount != 0) {
+            next = array[moduleCount - 1];
+        }
+        // Set correct size of returned array
+        // solhint-disable-next-line no-inline-assembly
+        assembly {
+            mstore(array, moduleCount)
+        }
+    }
+
+    /**
+     * @notice Inserts a module at the start of the lists of the given module types.
+     *         Modules with a module type support an interface, so neither the zero address nor the sentinel can be inserted.
+     */
+    function addToModuleLists(address module, uint8 moduleTypes) internal {
+        for (uint8 moduleType = 1; moduleType <= 16; moduleType <<= 1) {
+            if (moduleTypes & moduleType == 0) {
+                continue;
+            }
+            mapping(address => ModuleListEntry) storage moduleList = moduleLists[moduleType];
+            address first = moduleList[SENTINEL_MODULES].next;
+            if (first == address(0)) {
+                first = SENTINEL_MODULES;
+            }
+            moduleList[module] = ModuleListEntry(first, SENTINEL_MODULES);
+            moduleList[first].prev = module;
+            moduleList[SENTINEL_MODULES].next = module;
+            emit ModuleListed(module, moduleType);
+        }
+    }
+
+    function removeFromModuleLists(address module, uint8 moduleTypes) internal {
+        for (uint8 moduleType = 1; moduleType <= 16; moduleType <<= 1) {
+            if (moduleTypes & moduleType == 0) {
+                continue;
+            }
+            mapping(address => ModuleListEntry) storage moduleList = moduleLists[moduleType];
+            ModuleListEntry memory entry = moduleList[module];
+            moduleList[entry.prev].next = entry.next;
+            moduleList[entry.next].prev = entry.prev;
+            delete moduleList[module];
+        }
+    }
+
     function supportsInterface(bytes4 interfaceId) external view override returns (bool) {
         return interfaceId == type(ISafeProtocolRegistry).interfaceId || interfaceId == type(IERC165).interfaceId;
     }
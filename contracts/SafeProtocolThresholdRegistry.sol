@@ -0,0 +1,316 @@
+// SPDX-License-Identifier: LGPL-3.0-only
+pragma solidity ^0.8.18;
+import {ISafeProtocolRegistry} from "./interfaces/Registry.sol";
+import {Ownable2Step} from "@openzeppelin/contracts/access/Ownable2Step.sol";
+import {IERC165} from "@openzeppelin/contracts/utils/introspection/IERC165.sol";
+import {ModuleInterfaceChecker} from "./base/ModuleInterfaceChecker.sol";
+
+/**
+ * @title SafeProtocolThresholdRegistry - Registry that lists a module type once a threshold of attesters attested to it.
+ * @notice Attesters attest to modules per module type. Any attester can flag a module, which takes effect immediately
+ *         for all module types. Changes to the attesters and the threshold are scheduled by the owner and can only be
+ *         executed after the delay, so that accounts can react to them.
+ */
+contract SafeProtocolThresholdRegistry is ISafeProtocolRegistry, Ownable2Step, ModuleInterfaceChecker {
+    // Attesters are identified by a bit of the attestation bitmaps. Bits are not reused after an attester is removed,
+    // which limits the number of attesters that can ever be added.
+    uint256 public constant MAX_ATTESTERS = 256;
+
+    struct AttesterChange {
+        address[] attestersToAdd;
+        address[] attestersToRemove;
+        uint256 threshold;
+        uint64 executableAt;
+    }
+
+    uint64 public immutable delay;
+    uint256 public threshold;
+    // Timestamp of the last change of the attesters or the threshold.
+    uint64 public attestersChangedAt;
+    // Bitmap of the bits of the current attesters.
+    uint256 public activeAttesters;
+    mapping(address => uint256) public attesterBit;
+    // Bitmap of the attesters that attested to a module type, by module and module type.
+    mapping(address => mapping(uint8 => uint256)) public attestations;
+    // Timestamp at which the attestations of a module type reached the threshold, by module and module type.
+    mapping(address => mapping(uint8 => uint64)) public thresholdReachedAt;
+    mapping(address => uint64) public flaggedModules;
+
+    // Every attester that was ever added, the position is the index of the bit of the attester.
+    address[] internal attesterHistory;
+    AttesterChange internal pendingChange;
+
+    error NotAnAttester(address attester);
+    error InvalidAttester(address attester);
+    error TooManyAttesters();
+    error InvalidThreshold(uint256 threshold, uint256 attesterCount);
+    error AttesterChangeAlreadyScheduled(uint64 executableAt);
+    error NoAttesterChangeScheduled();
+    error AttesterChangeNotExecutable(uint64 executableAt);
+    error ModuleAlreadyAttested(address module, uint8 moduleType, address attester);
+    error ModuleAlreadyFlagged(address module);
+    error InvalidModuleType(address module, uint8 givenModuleType);
+
+    event ModuleAttested(address indexed module, address indexed attester, uint8 moduleTypes);
+    event ModuleListed(address indexed module, uint8 moduleType);
+    event ModuleFlagged(address indexed module, address indexed attester);
+    event AttesterChangeScheduled(address[] attestersToAdd, address[] attestersToRemove, uint256 threshold, uint64 executableAt);
+    event AttesterChangeCancelled();
+    event AttesterAdded(address indexed attester);
+    event AttesterRemoved(address indexed attester);
+    event ThresholdChanged(uint256 threshold);
+
+    modifier onlyAttester() {
+        if (!isAttester(msg.sender)) {
+            revert NotAnAttester(msg.sender);
+        }
+        _;
+    }
+
+    /**
+     * @param initialOwner Address of the owner that schedules changes of the attesters
+     * @param initialAttesters Addresses of the attesters
+     * @param initialThreshold Number of attestations required to list a module type
+     * @param attesterChangeDelay Seconds between scheduling and executing a change of the attesters or the threshold
+     */
+    constructor(address initialOwner, address[] memory initialAttesters, uint256 initialThreshold, uint64 attesterChangeDelay) {
+        _transferOwnership(initialOwner);
+        delay = attesterChangeDelay;
+        for (uint256 i = 0; i < initialAttesters.length; i++) {
+            addAttester(initialAttesters[i]);
+        }
+        setThreshold(initialThreshold);
+        attestersChangedAt = uint64(block.timestamp);
+    }
+
+    /**
+     * @notice This function returns information about a module
+     * @param module Address of the module to be checked
+     * @param data bytes32 containing the module type to check
+     * @return listedAt Timestamp at which the current attesters reached the threshold for the module type, or of the last
+     *         change of the attesters if it is later. This value will be 0 if the threshold is not reached.
+     *         A listing is always based on the current attesters and threshold, so every change of them intentionally
+     *         resets listedAt of all listed modules, also of modules whose attestations still reach the threshold.
+     *         Accounts that only trust listings of a minimum age treat all modules as newly listed after a change.
+     * @return flaggedAt Timestamp of flagging the module. This value will be 0 if not flagged.
+     */
+    function check(address module, bytes32 data) external view returns (uint64 listedAt, uint64 flaggedAt) {
+        uint8 moduleType = uint8(uint256(data));
+        flaggedAt = flaggedModules[module];
+
+        if (countAttestations(module, moduleType) >= threshold) {
+            uint64 reachedAt = thresholdReachedAt[module][moduleType];
+            listedAt = reachedAt > attestersChangedAt ? reachedAt : attestersChangedAt;
+        }
+    }
+
+    /**
+     * @notice Returns the number of current attesters that attested to a module type.
+     * @param module Address of the module
+     * @param moduleType uint8 representing a single module type
+     */
+    function countAttestations(address module, uint8 moduleType) public view returns (uint256) {
+        return countBits(attestations[module][moduleType] & activeAttesters);
+    }
+
+    function isAttester(address attester) public view returns (bool) {
+        return attesterBit[attester] & activeAttesters != 0;
+    }
+
+    function getAttesters() external view returns (address[] memory attesters) {
+        attesters = new address[](countBits(activeAttesters));
+        uint256 count = 0;
+        for (uint256 i = 0; i < attesterHistory.length; i++) {
+            if (activeAttesters & (1 << i) != 0) {
+                attesters[count++] = attesterHistory[i];
+            }
+        }
+    }
+
+    function getPendingAttesterChange() external view returns (AttesterChange memory) {
+        return pendingChange;
+    }
+
+    /**
+     * @notice Allows only attesters to attest to a module for the given module types. The module has to support the
+     *         interfaceId of every module type. A module type is listed once the number of attestations reaches the threshold.
+     * @param module Address of the module
+     * @param moduleTypes uint8 indicating the types of module
+     */
+    function attest(address module, uint8 moduleTypes) external onlyAttester {
+        if (flaggedModules[module] != 0) {
+            revert ModuleAlreadyFlagged(module);
+        }
+
+        // Maximum allowed value of moduleTypes is 31, see SafeProtocolRegistry.addModule(...).
+        if (moduleTypes == 0 || moduleTypes > 31) {
+            revert InvalidModuleType(module, moduleTypes);
+        }
+
+        checkInterfaceSupport(module, moduleTypes);
+
+        uint256 bit = attesterBit[msg.sender];
+        for (uint8 moduleType = 1; moduleType <= 16; moduleType <<= 1) {
+            if (moduleTypes & moduleType == 0) {
+                continue;
+            }
+            uint256 bitmap = attestations[module][moduleType];
+            if (bitmap & bit != 0) {
+                revert ModuleAlreadyAttested(module, moduleType, msg.sender);
+            }
+
+            bool listed = countAttestations(module, moduleType) >= threshold;
+            attestations[module][moduleType] = bitmap | bit;
+            if (!listed && countAttestations(module, moduleType) >= threshold) {
+                thresholdReachedAt[module][moduleType] = uint64(block.timestamp);
+                emit ModuleListed(module, moduleType);
+            }
+        }
+        emit ModuleAttested(module, msg.sender, moduleTypes);
+    }
+
+    /**
+     * @notice Allows any attester to flag a module. The flag takes effect immediately for all module types and cannot be
+     *         removed. Modules can be flagged before they are listed.
+     * @param module Address of the module
+     */
+    function flagModule(address module) external onlyAttester {
+        if (flaggedModules[module] != 0) {
+            revert ModuleAlreadyFlagged(module);
+        }
+
+        flaggedModules[module] = uint64(block.timestamp);
+        emit ModuleFlagged(module, msg.sender);
+    }
+
+    /**
+     * @notice Allows only owner to schedule a change of the attesters and the threshold. The change can be executed once
+     *         the delay has passed. Only one change can be scheduled at a time.
+     * @param attestersToAdd Addresses of the attesters to add
+     * @param attestersToRemove Addresses of the attesters to remove, they are removed before the new attesters are added
+     * @param newThreshold Threshold after the change
+     */
+    function scheduleAttesterChange(
+        address[] calldata attestersToAdd,
+        address[] calldata attestersToRemove,
+        uint256 newThreshold
+    ) external onlyOwner {
+        if (pendingChange.executableAt != 0) {
+            revert AttesterChangeAlreadyScheduled(pendingChange.executableAt);
+        }
+
+        for (uint256 i = 0; i < attestersToAdd.length; i++) {
+            address attester = attestersToAdd[i];
+            if (attester == address(0) || isAttester(attester)) {
+                revert InvalidAttester(attester);
+            }
+            for (uint256 j = 0; j < i; j++) {
+                if (attestersToAdd[j] == attester) {
+                    revert InvalidAttester(attester);
+                }
+            }
+        }
+        // Bits of the attesters removed so far, to detect attesters that are removed twice.
+        uint256 removedAttesters = 0;
+        for (uint256 i = 0; i < attestersToRemove.length; i++) {
+            uint256 bit = attesterBit[attestersToRemove[i]];
+            if (bit & activeAttesters == 0 || bit & removedAttesters != 0) {
+                revert NotAnAttester(attestersToRemove[i]);
+            }
+            removedAttesters |= bit;
+        }
+        uint256 attesterCount = countBits(activeAttesters) + attestersToAdd.length - attestersToRemove.length;
+        if (newThreshold == 0 || newThreshold > attesterCount) {
+            revert InvalidThreshold(newThreshold, attesterCount);
+        }
+
+        uint64 executableAt = uint64(block.timestamp) + delay;
+        pendingChange.attestersToAdd = attestersToAdd;
+        pendingChange.attestersToRemove = attestersToRemove;
+        pendingChange.threshold = newThreshold;
+        pendingChange.executableAt = executableAt;
+        emit AttesterChangeScheduled(attestersToAdd, attestersToRemove, newThreshold, executableAt);
+    }
+
+    /**
+     * @notice Allows only owner to cancel the scheduled change of the attesters.
+     */
+    function cancelAttesterChange() external onlyOwner {
+        if (pendingChange.executableAt == 0) {
+            revert NoAttesterChangeScheduled();
+        }
+
+        delete pendingChange;
+        emit AttesterChangeCancelled();
+    }
+
+    /**
+     * @notice Executes the scheduled change of the attesters once the delay has passed. Can be called by anyone.
+     *         Attestations of removed attesters no longer count, also if they are added again.
+     */
+    function executeAttesterChange() external {
+        AttesterChange memory change = pendingChange;
+        if (change.executableAt == 0) {
+            revert NoAttesterChangeScheduled();
+        }
+        if (block.timestamp < change.executableAt) {
+            revert AttesterChangeNotExecutable(change.executableAt);
+        }
+
+        delete pendingChange;
+        for (uint256 i = 0; i < change.attestersToRemove.length; i++) {
+            removeAttester(change.attestersToRemove[i]);
+        }
+        for (uint256 i = 0; i < change.attestersToAdd.length; i++) {
+            addAttester(change.attestersToAdd[i]);
+        }
+        setThreshold(change.threshold);
+        attestersChangedAt = uint64(block.timestamp);
+    }
+
+    function addAttester(address attester) internal {
+        if (attester == address(0) || isAttester(attester)) {
+            revert InvalidAttester(attester);
+        }
+        if (attesterHistory.length == MAX_ATTESTERS) {
+            revert TooManyAttesters();
+        }
+
+        uint256 bit = 1 << attesterHistory.length;
+        attesterHistory.push(attester);
+        attesterBit[attester] = bit;
+        activeAttesters |= bit;
+        emit AttesterAdded(attester);
+    }
+
+    function removeAttester(address attester) internal {
+        if (!isAttester(attester)) {
+            revert NotAnAttester(attester);
+        }
+
+        activeAttesters &= ~attesterBit[attester];
+        delete attesterBit[attester];
+        emit AttesterRemoved(attester);
+    }
+
+    function setThreshold(uint256 newThreshold) internal {
+        uint256 attesterCount = countBits(activeAttesters);
+        if (newThreshold == 0 || newThreshold > attesterCount) {
+            revert InvalidThreshold(newThreshold, attesterCount);
+        }
+
+        threshold = newThreshold;
+        emit ThresholdChanged(newThreshold);
+    }
+
+    function countBits(uint256 bitmap) internal pure returns (uint256 count) {
+        while (bitmap != 0) {
+            bitmap &= bitmap - 1;
+            count++;
+        }
+    }
+
+    function supportsInterface(bytes4 interfaceId) external view override returns (bool) {
+        return interfaceId == type(ISafeProtocolRegistry).interfaceId || interfaceId == type(IERC165).interfaceId;
+    }
+}
@@ -0,0 +1,45 @@
+// SPDX-License-Identifier: LGPL-3.0-only
+pragma solidity ^0.8.18;
+import {IERC165} from "@openzeppelin/contracts/utils/introspection/IERC165.sol";
+import {ISafeProtocolFunctionHandler, ISafeProtocolHooks, ISafeProtocolPlugin, ISafeProtocolSignatureValidator, ISafeProtocolSignatureValidatorHooks} from "../interfaces/Modules.sol";
+import {MODULE_TYPE_PLUGIN, MODULE_TYPE_HOOKS, MODULE_TYPE_FUNCTION_HANDLER, MODULE_TYPE_SIGNATURE_VALIDATOR_HOOKS, MODULE_TYPE_SIGNATURE_VALIDATOR} from "../common/Constants.sol";
+
+abstract contract ModuleInterfaceChecker {
+    error ModuleDoesNotSupportExpectedInterfaceId(address module, bytes4 expectedInterfaceId);
+
+    /**
+     * @notice This function checks if module supports the interfaceId of every given module type and reverts otherwise.
+     * @param module Address of the module
+     * @param moduleTypes uint8 representing the types of module
+     */
+    function checkInterfaceSupport(address module, uint8 moduleTypes) internal view {
+        optionalCheckInterfaceSupport(module, moduleTypes, MODULE_TYPE_PLUGIN, type(ISafeProtocolPlugin).interfaceId);
+        optionalCheckInterfaceSupport(module, moduleTypes, MODULE_TYPE_FUNCTION_HANDLER, type(ISafeProtocolFunctionHandler).interfaceId);
+        optionalCheckInterfaceSupport(module, moduleTypes, MODULE_TYPE_HOOKS, type(ISafeProtocolHooks).interfaceId);
+        optionalCheckInterfaceSupport(
+            module,
+            moduleTypes,
+            MODULE_TYPE_SIGNATURE_VALIDATOR_HOOKS,
+            type(ISafeProtocolSignatureValidatorHooks).interfaceId
+        );
+        optionalCheckInterfaceSupport(
+            module,
+            moduleTypes,
+            MODULE_TYPE_SIGNATURE_VALIDATOR,
+            type(ISafeProtocolSignatureValidator).interfaceId
+        );
+    }
+
+    /**
+     * @notice This function checks if module supports expected interfaceId. This function will revert if module does not support expected interfaceId.
+     * @param module Address of the module
+     * @param moduleTypes uint8 representing the types of module
+     * @param moduleTypeToCheck uint8 representing the type of module to check
+     * @param interfaceId bytes4 representing the interfaceId to check
+     */
+    function optionalCheckInterfaceSupport(address module, uint8 moduleTypes, uint8 moduleTypeToCheck, bytes4 interfaceId) internal view {
+        if (moduleTypes & moduleTypeToCheck == moduleTypeToCheck && !IERC165(module).supportsInterface(interfaceId)) {
+            revert ModuleDoesNotSupportExpectedInterfaceId(module, interfaceId);
+        }
+    }
+}
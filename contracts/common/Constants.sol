@@ -13,3 +13,9 @@ uint8 constant MODULE_TYPE_FUNCTION_HANDLER = 2;
 uint8 constant MODULE_TYPE_HOOKS = 4;
 uint8 constant MODULE_TYPE_SIGNATURE_VALIDATOR_HOOKS = 8;
 uint8 constant MODULE_TYPE_SIGNATURE_VALIDATOR = 16;
+
+// Reasons for unflagging and delisting modules in the registry
+uint8 constant REGISTRY_REASON_UNSPECIFIED = 0;
+uint8 constant REGISTRY_REASON_FLAGGED_BY_MISTAKE = 1;
+uint8 constant REGISTRY_REASON_ISSUE_RESOLVED = 2;
+uint8 constant REGISTRY_REASON_DEPRECATED = 3;
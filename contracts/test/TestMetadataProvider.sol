@@ -0,0 +1,20 @@
+// SPDX-License-Identifier: LGPL-3.0-only
+pragma solidity ^0.8.18;
+
+contract TestMetadataProvider {
+    event Metadata(bytes32 indexed metadataHash, bytes data);
+
+    mapping(bytes32 => bytes) internal metadata;
+
+    function setMetadata(bytes calldata data) external {
+        metadata[keccak256(data)] = data;
+    }
+
+    function emitMetadata(bytes calldata data) external {
+        emit Metadata(keccak256(data), data);
+    }
+
+    function retrieveMetadata(bytes32 metadataHash) external view returns (bytes memory) {
+        return metadata[metadataHash];
+    }
+}
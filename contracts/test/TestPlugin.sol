@@ -11,8 +11,17 @@ abstract contract BaseTestPlugin is ISafeProtocolPlugin {
     string public name = "";
     string public version = "";
     uint8 public permissions = PLUGIN_PERMISSION_NONE;
+    uint256 internal metadataProviderType;
+    bytes internal metadataProviderLocation;
 
-    function metadataProvider() external view override returns (uint256 providerType, bytes memory location) {}
+    function metadataProvider() external view override returns (uint256 providerType, bytes memory location) {
+        return (metadataProviderType, metadataProviderLocation);
+    }
+
+    function setMetadataProvider(uint256 providerType, bytes calldata location) external {
+        metadataProviderType = providerType;
+        metadataProviderLocation = location;
+    }
 
     function setRequiresPermissions(uint8 _requiresPermission) external {
         permissions = _requiresPermission;
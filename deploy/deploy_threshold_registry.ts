@@ -0,0 +1,42 @@
+import { DeployFunction } from "hardhat-deploy/types";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+
+// Two days, so that accounts can switch to another registry before a change of the attesters takes effect.
+const DEFAULT_ATTESTER_CHANGE_DELAY = 2 * 24 * 60 * 60;
+
+const parseInteger = (name: string, value: string | undefined, defaultValue: number, min: number): number => {
+    if (!value) return defaultValue;
+    const parsed = Number(value.trim());
+    if (!/^\d+$/.test(value.trim()) || !Number.isSafeInteger(parsed) || parsed < min) {
+        throw new Error(`${name} has to be an integer of at least ${min}, got "${value}"`);
+    }
+    return parsed;
+};
+
+const deploy: DeployFunction = async function (hre: HardhatRuntimeEnvironment) {
+    const { deployments, getNamedAccounts } = hre;
+    const { deployer, owner } = await getNamedAccounts();
+    const { deploy } = deployments;
+    const { SAFE_CORE_PROTOCOL_ATTESTERS, SAFE_CORE_PROTOCOL_ATTESTER_THRESHOLD, SAFE_CORE_PROTOCOL_ATTESTER_CHANGE_DELAY } = process.env;
+
+    const attesters = (SAFE_CORE_PROTOCOL_ATTESTERS ?? "").split(",").map((attester) => attester.trim());
+    const threshold = parseInteger("SAFE_CORE_PROTOCOL_ATTESTER_THRESHOLD", SAFE_CORE_PROTOCOL_ATTESTER_THRESHOLD, 1, 1);
+    const delay = parseInteger(
+        "SAFE_CORE_PROTOCOL_ATTESTER_CHANGE_DELAY",
+        SAFE_CORE_PROTOCOL_ATTESTER_CHANGE_DELAY,
+        DEFAULT_ATTESTER_CHANGE_DELAY,
+        0,
+    );
+
+    await deploy("SafeProtocolThresholdRegistry", {
+        from: deployer,
+        args: [owner, attesters, threshold, delay],
+        log: true,
+        deterministicDeployment: true,
+    });
+};
+
+// The threshold registry is optional and only deployed if the attesters are configured.
+deploy.skip = async () => !process.env.SAFE_CORE_PROTOCOL_ATTESTERS;
+deploy.tags = ["threshold-registry"];
+export default deploy;
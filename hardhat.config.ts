@@ -10,6 +10,17 @@ import { getSingletonFactoryInfo } from "@safe-global/safe-singleton-factory";
 import { ethers } from "ethers";
 import "./src/tasks/generate_deployments_markdown";
 import "./src/tasks/show_codesize";
+import "./src/tasks/registry";
+import "./src/tasks/generate_constants";
+import "./src/tasks/verify_bytecode";
+import "./src/tasks/verify_reproducible";
+import "./src/tasks/plugins";
+import "./src/tasks/account";
+import "./src/tasks/indexer";
+import "./src/tasks/flagged_modules";
+import "./src/tasks/simulate";
+import "./src/tasks/decode_error";
+import { registerExplorer } from "./src/utils/explorers";
 
 // Load environment variables.
 dotenv.config();
@@ -22,7 +33,7 @@ const argv : any = yargs
     .help(false)
     .version(false).argv;
 
-const { NODE_URL, MNEMONIC, INFURA_KEY, ETHERSCAN_API_KEY, SAFE_CORE_PROTOCOL_OWNER_ADDRESS } = process.env;
+const { NODE_URL, NODE_CHAIN_ID, NODE_EXPLORER_URL, MNEMONIC, INFURA_KEY, ETHERSCAN_API_KEY, SAFE_CORE_PROTOCOL_OWNER_ADDRESS } = process.env;
 
 const deterministicDeployment = (network: string): DeterministicDeploymentInfo => {
   const info = getSingletonFactoryInfo(parseInt(network));
@@ -117,7 +128,11 @@ if (NODE_URL) {
   config.networks!.custom = {
       ...sharedNetworkConfig,
       url: NODE_URL,
+      chainId: NODE_CHAIN_ID ? parseInt(NODE_CHAIN_ID) : undefined,
   };
+  if (NODE_CHAIN_ID && NODE_EXPLORER_URL) {
+      registerExplorer(NODE_CHAIN_ID, { name: "custom", url: NODE_EXPLORER_URL });
+  }
 }
 
 export default config;
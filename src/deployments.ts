@@ -0,0 +1,101 @@
+import { ContractRunner, InterfaceAbi } from "ethers";
+import deployments from "../deployments";
+import {
+    SafeProtocolManager__factory,
+    SafeProtocolRegistry__factory,
+    SafeProtocolThresholdRegistry__factory,
+    SignatureValidatorManager__factory,
+    TestSafeProtocolManager__factory,
+    TestSafeProtocolRegistryUnrestricted__factory,
+} from "../typechain-types";
+
+const FACTORIES = {
+    SafeProtocolManager: SafeProtocolManager__factory,
+    SafeProtocolRegistry: SafeProtocolRegistry__factory,
+    SafeProtocolThresholdRegistry: SafeProtocolThresholdRegistry__factory,
+    SignatureValidatorManager: SignatureValidatorManager__factory,
+    TestSafeProtocolManager: TestSafeProtocolManager__factory,
+    TestSafeProtocolRegistryUnrestricted: TestSafeProtocolRegistryUnrestricted__factory,
+};
+
+export type ContractName = keyof typeof FACTORIES;
+export type ContractInstance<N extends ContractName> = ReturnType<(typeof FACTORIES)[N]["connect"]>;
+
+export interface Deployment {
+    chainId: number;
+    network: string;
+    name: ContractName;
+    address: string;
+    abi: InterfaceAbi;
+}
+
+/** Export of hardhat-deploy with the deployments of every chain, as in the generated deployments file. */
+export interface DeploymentsExport {
+    [chainId: string]: readonly {
+        name: string;
+        chainId: string;
+        contracts: { [contractName: string]: { address: string; abi: unknown } };
+    }[];
+}
+
+const DEPLOYMENTS = deployments as DeploymentsExport;
+
+/**
+ * Returns the chainIds for which deployments are available.
+ */
+export const listSupportedChains = (): number[] => Object.keys(DEPLOYMENTS).map(Number);
+
+/**
+ * Returns the names of the contracts deployed on a chain. Throws if there are no deployments for the chain.
+ */
+export const listDeployedContracts = (chainId: number | bigint | string): ContractName[] => {
+    const names = new Set<ContractName>();
+    getChainDeployments(chainId).forEach((deployment) => {
+        Object.keys(deployment.contracts).forEach((name) => names.add(name as ContractName));
+    });
+    return [...names];
+};
+
+const getChainDeployments = (chainId: number | bigint | string) => {
+    const chainDeployments = DEPLOYMENTS[chainId.toString()];
+    if (chainDeployments === undefined || chainDeployments.length === 0) {
+        throw new Error(`No deployments found for chainId ${chainId}. Supported chainIds: ${listSupportedChains().join(", ")}`);
+    }
+    return chainDeployments;
+};
+
+/**
+ * Returns the address and abi of a contract deployed on a chain.
+ * Throws if there are no deployments for the chain or the contract is not deployed on it.
+ */
+export const getDeployment = (chainId: number | bigint | string, name: ContractName): Deployment => {
+    for (const deployment of getChainDeployments(chainId)) {
+        const contract = deployment.contracts[name];
+        if (contract !== undefined) {
+            return {
+                chainId: Number(deployment.chainId),
+                network: deployment.name,
+                name,
+                address: contract.address,
+                abi: contract.abi as InterfaceAbi,
+            };
+        }
+    }
+    throw new Error(
+        `Contract ${name} is not deployed on chainId ${chainId}. Deployed contracts: ${listDeployedContracts(chainId).join(", ")}`,
+    );
+};
+
+/**
+ * Returns a TypeChain typed instance of a contract deployed on a chain, connected to the given runner.
+ */
+export const getContract = <N extends ContractName>(
+    chainId: number | bigint | string,
+    name: N,
+    runner?: ContractRunner | null,
+): ContractInstance<N> => {
+    if (FACTORIES[name] === undefined) {
+        throw new Error(`Unknown contract ${name}. Known contracts: ${Object.keys(FACTORIES).join(", ")}`);
+    }
+    return FACTORIES[name].connect(getDeployment(chainId, name).address, runner) as ContractInstance<N>;
+};
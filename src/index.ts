@@ -0,0 +1,18 @@
+import deployments from "../deployments";
+
+// The raw deployments object stays the default export for backwards compatibility.
+export default deployments;
+export { deployments };
+export * from "./deployments";
+export * from "./simulator";
+export * from "./utils/accountCall";
+export * from "./utils/bitmask";
+export * from "./utils/constants";
+export * from "./utils/dataTypes";
+export * from "./utils/errors";
+export * from "./utils/explorers";
+export * from "./utils/metadata";
+export * from "./utils/metadataProvider";
+export * from "./utils/plugins";
+export * from "./utils/registry";
+export * from "./utils/transactionBuilder";
@@ -0,0 +1,423 @@
+import fs from "fs";
+import path from "path";
+import { getAddress, Interface, Log, Provider } from "ethers";
+import { SafeProtocolManager__factory, SafeProtocolRegistry__factory, SignatureValidatorManager__factory } from "../typechain-types";
+import type {
+    FunctionHandlerChangedEvent,
+    HooksChangedEvent,
+    PluginDisabledEvent,
+    PluginEnabledEvent,
+    RegistryChangedEvent,
+} from "../typechain-types/contracts/SafeProtocolManager";
+import type {
+    ModuleAddedEvent,
+    ModuleDelistedEvent,
+    ModuleFlaggedEvent,
+    ModuleUnflaggedEvent,
+} from "../typechain-types/contracts/SafeProtocolRegistry";
+import type {
+    SignatureValidatorChangedEvent,
+    SignatureValidatorHooksChangedEvent,
+} from "../typechain-types/contracts/SignatureValidatorManager";
+import type { ModuleType } from "./utils/bitmask";
+
+const INDEX_VERSION = 1;
+// Number of checkpoints kept to find the common ancestor after a reorg.
+const REORG_DEPTH = 64;
+const DEFAULT_BATCH_SIZE = 2000;
+
+export interface IndexerContracts {
+    manager: string;
+    registry?: string;
+    signatureValidatorManager?: string;
+}
+
+export interface BlockReference {
+    number: number;
+    hash: string;
+}
+
+// Event arguments as stored in the JSON file, i.e. with bigints converted to numbers.
+type StoredArgs<T> = { [K in keyof T]: T[K] extends bigint ? number : T[K] };
+
+interface IndexedEventBase<N extends string, T> {
+    name: N;
+    args: StoredArgs<T>;
+    address: string;
+    blockNumber: number;
+    blockHash: string;
+    transactionHash: string;
+    logIndex: number;
+}
+
+export type IndexedEvent =
+    | IndexedEventBase<"PluginEnabled", PluginEnabledEvent.OutputObject>
+    | IndexedEventBase<"PluginDisabled", PluginDisabledEvent.OutputObject>
+    | IndexedEventBase<"HooksChanged", HooksChangedEvent.OutputObject>
+    | IndexedEventBase<"FunctionHandlerChanged", FunctionHandlerChangedEvent.OutputObject>
+    | IndexedEventBase<"SignatureValidatorChanged", SignatureValidatorChangedEvent.OutputObject>
+    | IndexedEventBase<"SignatureValidatorHooksChanged", SignatureValidatorHooksChangedEvent.OutputObject>
+    | IndexedEventBase<"ModuleAdded", ModuleAddedEvent.OutputObject>
+    | IndexedEventBase<"ModuleFlagged", ModuleFlaggedEvent.OutputObject>
+    | IndexedEventBase<"ModuleUnflagged", ModuleUnflaggedEvent.OutputObject>
+    | IndexedEventBase<"ModuleDelisted", ModuleDelistedEvent.OutputObject>
+    | IndexedEventBase<"RegistryChanged", RegistryChangedEvent.OutputObject>;
+
+export type IndexedEventName = IndexedEvent["name"];
+
+export interface AccountState {
+    /** Enabled plugins and their permissions. */
+    plugins: Record<string, number>;
+    hooks?: string;
+    /** Function handlers by selector. */
+    functionHandlers: Record<string, string>;
+    /** Signature validators by domain separator. */
+    signatureValidators: Record<string, string>;
+    signatureValidatorHooks?: string;
+}
+
+export interface ModuleState {
+    addedAtBlock: number;
+    flaggedAtBlock?: number;
+}
+
+export interface IndexState {
+    accounts: Record<string, AccountState>;
+    /** Modules by registry address and module address. */
+    modules: Record<string, Record<string, ModuleState>>;
+    /**
+     * Registry of the manager and the signature validator manager, only set once RegistryChanged was emitted. The
+     * events of these registries are indexed from the first block of the index.
+     */
+    registries: Record<string, string>;
+}
+
+export interface Index {
+    version: number;
+    chainId: string;
+    contracts: IndexerContracts;
+    fromBlock: number;
+    /** Last block that was fully indexed. */
+    checkpoint?: BlockReference;
+    /** Most recent checkpoints, used to detect reorgs. */
+    recentCheckpoints: BlockReference[];
+    events: IndexedEvent[];
+    state: IndexState;
+}
+
+export interface SyncOptions {
+    /** JSON file the index is stored in. An existing index is resumed from its checkpoint. */
+    file: string;
+    contracts: IndexerContracts;
+    /** First block to index for a new index. Defaults to 0. */
+    fromBlock?: number;
+    /** Last block to index. Defaults to the latest block minus the confirmations. */
+    toBlock?: number;
+    /** Number of blocks requested per eth_getLogs call. */
+    batchSize?: number;
+    /** Number of blocks behind the head that are not indexed yet. */
+    confirmations?: number;
+}
+
+export interface SyncResult {
+    index: Index;
+    newEvents: number;
+    /** Checkpoint the index was rewound to because of a reorg. */
+    rewoundTo?: BlockReference | null;
+}
+
+const INTERFACES: Interface[] = [
+    SafeProtocolManager__factory.createInterface(),
+    SafeProtocolRegistry__factory.createInterface(),
+    SignatureValidatorManager__factory.createInterface(),
+];
+
+const INDEXED_EVENTS: readonly IndexedEventName[] = [
+    "PluginEnabled",
+    "PluginDisabled",
+    "HooksChanged",
+    "FunctionHandlerChanged",
+    "SignatureValidatorChanged",
+    "SignatureValidatorHooksChanged",
+    "ModuleAdded",
+    "ModuleFlagged",
+    "ModuleUnflagged",
+    "ModuleDelisted",
+    "RegistryChanged",
+];
+
+const emptyState = (): IndexState => ({ accounts: {}, modules: {}, registries: {} });
+
+const getAccount = (state: IndexState, account: string): AccountState => {
+    state.accounts[account] = state.accounts[account] ?? { plugins: {}, functionHandlers: {}, signatureValidators: {} };
+    return state.accounts[account];
+};
+
+const setOrDelete = (record: Record<string, string>, key: string, value: string) => {
+    if (BigInt(value) === 0n) delete record[key];
+    else record[key] = value;
+};
+
+const applyEvent = (state: IndexState, event: IndexedEvent) => {
+    switch (event.name) {
+        case "PluginEnabled":
+            getAccount(state, event.args.account).plugins[event.args.plugin] = event.args.permissions;
+            break;
+        case "PluginDisabled":
+            delete getAccount(state, event.args.account).plugins[event.args.plugin];
+            break;
+        case "HooksChanged":
+            getAccount(state, event.args.account).hooks = BigInt(event.args.hooksAddress) === 0n ? undefined : event.args.hooksAddress;
+            break;
+        case "FunctionHandlerChanged":
+            setOrDelete(getAccount(state, event.args.account).functionHandlers, event.args.selector, event.args.functionHandler);
+            break;
+        case "SignatureValidatorChanged":
+            setOrDelete(
+                getAccount(state, event.args.account).signatureValidators,
+                event.args.domainSeparator,
+                event.args.signatureValidator,
+            );
+            break;
+        case "SignatureValidatorHooksChanged":
+            getAccount(state, event.args.account).signatureValidatorHooks =
+                BigInt(event.args.signatureValidatorHooks) === 0n ? undefined : event.args.signatureValidatorHooks;
+            break;
+        case "ModuleAdded":
+            state.modules[event.address] = state.modules[event.address] ?? {};
+            state.modules[event.address][event.args.module] = { addedAtBlock: event.blockNumber };
+            break;
+        case "ModuleFlagged":
+            state.modules[event.address] = state.modules[event.address] ?? {};
+            state.modules[event.address][event.args.module] = {
+                ...state.modules[event.address][event.args.module],
+                flaggedAtBlock: event.blockNumber,
+            };
+            break;
+        case "ModuleUnflagged":
+            delete state.modules[event.address]?.[event.args.module]?.flaggedAtBlock;
+            break;
+        case "ModuleDelisted":
+            delete state.modules[event.address]?.[event.args.module];
+            break;
+        case "RegistryChanged":
+            state.registries[event.address] = event.args.newRegistry;
+            break;
+    }
+};
+
+/**
+ * Materializes the state of the accounts and registries from indexed events. The events have to be in log order.
+ */
+export const buildIndexState = (events: readonly IndexedEvent[]): IndexState => {
+    const state = emptyState();
+    events.forEach((event) => applyEvent(state, event));
+    return state;
+};
+
+const decodeLog = (log: Log): IndexedEvent | undefined => {
+    for (const contractInterface of INTERFACES) {
+        const parsed = contractInterface.parseLog({ topics: [...log.topics], data: log.data });
+        if (parsed === null) continue;
+        if (!INDEXED_EVENTS.includes(parsed.name as IndexedEventName)) return undefined;
+
+        const args: Record<string, unknown> = {};
+        parsed.fragment.inputs.forEach((input, index) => {
+            const value = parsed.args[index];
+            args[input.name] = typeof value === "bigint" ? Number(value) : value;
+        });
+        return {
+            name: parsed.name,
+            args,
+            address: getAddress(log.address),
+            blockNumber: log.blockNumber,
+            blockHash: log.blockHash,
+            transactionHash: log.transactionHash,
+            logIndex: log.index,
+        } as IndexedEvent;
+    }
+    return undefined;
+};
+
+const sortEvents = (events: IndexedEvent[]): IndexedEvent[] =>
+    events.sort((a, b) => a.blockNumber - b.blockNumber || a.logIndex - b.logIndex);
+
+const decodeLogs = (logs: Log[]): IndexedEvent[] =>
+    sortEvents(logs.map(decodeLog).filter((event): event is IndexedEvent => event !== undefined));
+
+/**
+ * Returns the registries that managers switched to, as their events have to be indexed in addition to the
+ * registry the index was created for.
+ */
+const getChangedRegistries = (events: readonly IndexedEvent[]): string[] => {
+    const registries = events.flatMap((event) => (event.name === "RegistryChanged" ? [getAddress(event.args.newRegistry)] : []));
+    return [...new Set(registries)];
+};
+
+/**
+ * Loads an index from a JSON file. Returns undefined if the file does not exist.
+ */
+export const loadIndex = (file: string): Index | undefined => {
+    if (!fs.existsSync(file)) return undefined;
+    const index: Index = JSON.parse(fs.readFileSync(file, "utf8"));
+    if (index.version !== INDEX_VERSION) {
+        throw new Error(`Index ${file} has version ${index.version}, expected ${INDEX_VERSION}. Delete it to reindex.`);
+    }
+    return index;
+};
+
+const saveIndex = (file: string, index: Index) => {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    // Write to a temporary file first, so that an interrupted sync never leaves a truncated index behind.
+    fs.writeFileSync(`${file}.tmp`, JSON.stringify(index, null, 2) + "\n");
+    fs.renameSync(`${file}.tmp`, file);
+};
+
+const normalizeContracts = (contracts: IndexerContracts): IndexerContracts => ({
+    manager: getAddress(contracts.manager),
+    registry: contracts.registry && getAddress(contracts.registry),
+    signatureValidatorManager: contracts.signatureValidatorManager && getAddress(contracts.signatureValidatorManager),
+});
+
+/**
+ * Rewinds the index to the most recent checkpoint that is still part of the canonical chain. Returns the checkpoint
+ * the index was rewound to, null if no checkpoint is part of the chain anymore or undefined if there was no reorg.
+ */
+const handleReorg = async (provider: Provider, index: Index): Promise<BlockReference | null | undefined> => {
+    for (let i = index.recentCheckpoints.length - 1; i >= 0; i--) {
+        const checkpoint = index.recentCheckpoints[i];
+        const block = await provider.getBlock(checkpoint.number);
+        if (block?.hash !== checkpoint.hash) continue;
+        if (i === index.recentCheckpoints.length - 1) return undefined;
+
+        index.recentCheckpoints = index.recentCheckpoints.slice(0, i + 1);
+        index.checkpoint = checkpoint;
+        index.events = index.events.filter((event) => event.blockNumber <= checkpoint.number);
+        index.state = buildIndexState(index.events);
+        return checkpoint;
+    }
+    if (index.checkpoint === undefined) return undefined;
+
+    // The reorg is deeper than the stored checkpoints, so the index is rebuilt from the start.
+    index.recentCheckpoints = [];
+    index.checkpoint = undefined;
+    index.events = [];
+    index.state = emptyState();
+    return null;
+};
+
+/**
+ * Indexes the events of the manager, the registry and the signature validator manager into a JSON file. Registries
+ * that the managers switch to are indexed as well. The sync resumes from the checkpoint of an existing index and
+ * rewinds it if a reorg replaced already indexed blocks.
+ */
+export const syncIndex = async (provider: Provider, options: SyncOptions): Promise<SyncResult> => {
+    const chainId = (await provider.getNetwork()).chainId.toString();
+    const contracts = normalizeContracts(options.contracts);
+
+    const index: Index = loadIndex(options.file) ?? {
+        version: INDEX_VERSION,
+        chainId,
+        contracts,
+        fromBlock: options.fromBlock ?? 0,
+        recentCheckpoints: [],
+        events: [],
+        state: emptyState(),
+    };
+    if (index.chainId !== chainId) {
+        throw new Error(`Index ${options.file} was created for chain ${index.chainId}, but the node is connected to chain ${chainId}`);
+    }
+    if (JSON.stringify(normalizeContracts(index.contracts)) !== JSON.stringify(contracts)) {
+        throw new Error(`Index ${options.file} was created for different contracts. Delete it to reindex.`);
+    }
+
+    const rewoundTo = await handleReorg(provider, index);
+
+    const head = (await provider.getBlockNumber()) - (options.confirmations ?? 0);
+    const toBlock = options.toBlock !== undefined ? Math.min(options.toBlock, head) : head;
+    const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+    const addresses = [contracts.manager, contracts.registry, contracts.signatureValidatorManager, ...getChangedRegistries(index.events)]
+        .filter((address): address is string => address !== undefined)
+        .filter((address, i, all) => all.indexOf(address) === i);
+
+    let newEvents = 0;
+    for (let from = index.checkpoint ? index.checkpoint.number + 1 : index.fromBlock; from <= toBlock; from += batchSize) {
+        const to = Math.min(from + batchSize - 1, toBlock);
+        const logs = await provider.getLogs({ address: addresses, fromBlock: from, toBlock: to });
+        const block = await provider.getBlock(to);
+        if (block === null || block.hash === null) {
+            throw new Error(`Block ${to} is not available`);
+        }
+
+        const events = decodeLogs(logs);
+        const newRegistries = getChangedRegistries(events).filter((registry) => !addresses.includes(registry));
+        if (newRegistries.length > 0) {
+            // A manager switched to a registry that was not indexed yet, so its events are backfilled from the start.
+            const backfilled: IndexedEvent[] = [];
+            for (let backfillFrom = index.fromBlock; backfillFrom <= to; backfillFrom += batchSize) {
+                const backfillTo = Math.min(backfillFrom + batchSize - 1, to);
+                backfilled.push(
+                    ...decodeLogs(await provider.getLogs({ address: newRegistries, fromBlock: backfillFrom, toBlock: backfillTo })),
+                );
+            }
+            addresses.push(...newRegistries);
+            index.events = sortEvents([...index.events, ...events, ...backfilled]);
+            index.state = buildIndexState(index.events);
+            newEvents += events.length + backfilled.length;
+        } else {
+            events.forEach((event) => applyEvent(index.state, event));
+            index.events.push(...events);
+            newEvents += events.length;
+        }
+
+        index.checkpoint = { number: to, hash: block.hash };
+        index.recentCheckpoints = [...index.recentCheckpoints, index.checkpoint].slice(-REORG_DEPTH);
+        saveIndex(options.file, index);
+    }
+    if (rewoundTo !== undefined) saveIndex(options.file, index);
+
+    return { index, newEvents, rewoundTo };
+};
+
+export interface FlaggedModuleExposure {
+    account: string;
+    type: ModuleType;
+    module: string;
+    /** Selector of a function handler or domain separator of a signature validator. */
+    key?: string;
+    registry: string;
+    flaggedAtBlock: number;
+}
+
+/**
+ * Joins the flagged modules with the account configuration of an index. Returns every module that is still
+ * configured for an account although it was flagged in the registry used by the manager that enables it.
+ */
+export const getFlaggedModuleExposures = (index: Index): FlaggedModuleExposure[] => {
+    const { manager, signatureValidatorManager } = index.contracts;
+    const managerRegistry = index.state.registries[manager] ?? index.contracts.registry;
+    const signatureValidatorRegistry =
+        (signatureValidatorManager && index.state.registries[signatureValidatorManager]) ?? index.contracts.registry;
+
+    const exposures: FlaggedModuleExposure[] = [];
+    const check = (account: string, type: ModuleType, module: string | undefined, registry: string | undefined, key?: string) => {
+        if (module === undefined || registry === undefined) return;
+        const flaggedAtBlock = index.state.modules[registry]?.[module]?.flaggedAtBlock;
+        if (flaggedAtBlock !== undefined) {
+            exposures.push({ account, type, module, ...(key !== undefined ? { key } : {}), registry, flaggedAtBlock });
+        }
+    };
+
+    Object.entries(index.state.accounts).forEach(([account, state]) => {
+        Object.keys(state.plugins).forEach((plugin) => check(account, "plugin", plugin, managerRegistry));
+        check(account, "hooks", state.hooks, managerRegistry);
+        Object.entries(state.functionHandlers).forEach(([selector, handler]) =>
+            check(account, "function-handler", handler, managerRegistry, selector),
+        );
+        Object.entries(state.signatureValidators).forEach(([domainSeparator, validator]) =>
+            check(account, "signature-validator", validator, signatureValidatorRegistry, domainSeparator),
+        );
+        check(account, "signature-validator-hooks", state.signatureValidatorHooks, signatureValidatorRegistry);
+    });
+    return exposures;
+};
@@ -0,0 +1,4 @@
+// Modules that depend on the file system of Node.js. They are exported separately so that the main entry point
+// can be bundled for browsers.
+export * from "./indexer";
+export * from "./utils/fileMetadataStore";
@@ -0,0 +1,183 @@
+import { AddressLike, BigNumberish, hexlify, Interface, resolveAddress, toQuantity } from "ethers";
+import { SafeProtocolManager__factory } from "../typechain-types";
+import { SafeProtocolAction, SafeRootAccess, SafeTransaction } from "./utils/dataTypes";
+import { decodeError, DecodedError, getRevertData } from "./utils/errors";
+
+/** Provider that forwards JSON-RPC requests, e.g. an ethers JsonRpcProvider or `hre.ethers.provider`. */
+export interface RpcProvider {
+    send(method: string, params: unknown[]): Promise<unknown>;
+}
+
+/** State override of an account, as accepted by the third parameter of `eth_call`. */
+export interface StateOverride {
+    balance?: BigNumberish;
+    nonce?: BigNumberish;
+    code?: string;
+    /** Storage slots that are overridden, all other slots keep their value. */
+    stateDiff?: Record<string, string>;
+}
+
+export interface SimulationOptions {
+    /** State overrides by address. */
+    stateOverrides?: Record<string, StateOverride>;
+    /** Block to simulate on, defaults to `latest`. */
+    blockTag?: string;
+}
+
+/**
+ * Decoded revert of the simulation. For `ActionExecutionFailed` the error of the failing action is simulated as a call
+ * from the account and added as `actionError`. Earlier actions of the transaction are not applied for this call.
+ */
+export type SimulationError = DecodedError & { actionError?: SimulationError };
+
+export type SimulationResult = { success: true; returnData: string[] } | { success: false; error: SimulationError };
+
+interface CallRequest {
+    from: string;
+    to: string;
+    value: string;
+    data: string;
+}
+
+const managerInterface: Interface = SafeProtocolManager__factory.createInterface();
+
+const toRpcOverrides = (stateOverrides: Record<string, StateOverride>): Record<string, Record<string, unknown>> => {
+    return Object.fromEntries(
+        Object.entries(stateOverrides).map(([address, override]) => [
+            address,
+            {
+                ...(override.balance !== undefined && { balance: toQuantity(override.balance) }),
+                ...(override.nonce !== undefined && { nonce: toQuantity(override.nonce) }),
+                ...(override.code !== undefined && { code: override.code }),
+                ...(override.stateDiff !== undefined && { stateDiff: override.stateDiff }),
+            },
+        ]),
+    );
+};
+
+// Hardhat nodes do not accept state overrides in eth_call, so they are applied in a snapshot that is reverted afterwards.
+const applyHardhatOverrides = async (provider: RpcProvider, stateOverrides: Record<string, StateOverride>) => {
+    for (const [address, override] of Object.entries(stateOverrides)) {
+        if (override.balance !== undefined) {
+            await provider.send("hardhat_setBalance", [address, toQuantity(override.balance)]);
+        }
+        if (override.nonce !== undefined) {
+            await provider.send("hardhat_setNonce", [address, toQuantity(override.nonce)]);
+        }
+        if (override.code !== undefined) {
+            await provider.send("hardhat_setCode", [address, override.code]);
+        }
+        for (const [slot, value] of Object.entries(override.stateDiff ?? {})) {
+            await provider.send("hardhat_setStorageAt", [address, toQuantity(slot), value]);
+        }
+    }
+};
+
+const isHardhatNode = async (provider: RpcProvider): Promise<boolean> => {
+    const clientVersion = await provider.send("web3_clientVersion", []);
+    return typeof clientVersion === "string" && clientVersion.startsWith("HardhatNetwork");
+};
+
+/**
+ * Runs an eth_call and returns its return data or the decoded revert. Errors that are not reverts are rethrown.
+ */
+const simulateCall = async (
+    provider: RpcProvider,
+    request: CallRequest,
+    options: SimulationOptions,
+): Promise<{ success: true; returnData: string } | { success: false; error: SimulationError }> => {
+    const blockTag = options.blockTag ?? "latest";
+    const stateOverrides = options.stateOverrides ?? {};
+    const hasOverrides = Object.keys(stateOverrides).length > 0;
+    const useSnapshot = hasOverrides && (await isHardhatNode(provider));
+    const snapshot = useSnapshot ? await provider.send("evm_snapshot", []) : undefined;
+    try {
+        if (useSnapshot) {
+            await applyHardhatOverrides(provider, stateOverrides);
+        }
+        const params: unknown[] = hasOverrides && !useSnapshot ? [request, blockTag, toRpcOverrides(stateOverrides)] : [request, blockTag];
+        return { success: true, returnData: (await provider.send("eth_call", params)) as string };
+    } catch (error) {
+        const data = getRevertData(error);
+        if (data === undefined) {
+            throw error;
+        }
+        return { success: false, error: decodeError(data) };
+    } finally {
+        if (useSnapshot) {
+            await provider.send("evm_revert", [snapshot]);
+        }
+    }
+};
+
+const toCallRequest = async (from: AddressLike, to: AddressLike, data: string, value: BigNumberish = 0): Promise<CallRequest> => {
+    return { from: await resolveAddress(from), to: await resolveAddress(to), value: toQuantity(value), data };
+};
+
+const simulateFailedAction = async (
+    provider: RpcProvider,
+    account: AddressLike,
+    action: SafeProtocolAction | undefined,
+    options: SimulationOptions,
+): Promise<SimulationError | undefined> => {
+    if (action === undefined) {
+        return undefined;
+    }
+    try {
+        const result = await simulateCall(provider, await toCallRequest(account, action.to, hexlify(action.data), action.value), options);
+        return result.success ? undefined : result.error;
+    } catch {
+        // Nodes reject some calls before executing them, e.g. if the account cannot pay the value of the action.
+        return undefined;
+    }
+};
+
+/**
+ * Simulates `executeTransaction` called by the plugin. Returns the return data of every action or the decoded error.
+ * @param provider JSON-RPC provider, Hardhat nodes are supported as well
+ * @param manager Address of the SafeProtocolManager
+ * @param plugin Address of the plugin, used as the sender of the call
+ * @param account Address of the account that executes the actions
+ * @param transaction Transaction to simulate
+ */
+export const simulateTransaction = async (
+    provider: RpcProvider,
+    manager: AddressLike,
+    plugin: AddressLike,
+    account: AddressLike,
+    transaction: SafeTransaction,
+    options: SimulationOptions = {},
+): Promise<SimulationResult> => {
+    const data = managerInterface.encodeFunctionData("executeTransaction", [await resolveAddress(account), transaction]);
+    const result = await simulateCall(provider, await toCallRequest(plugin, manager, data), options);
+    if (!result.success) {
+        if (result.error.name === "ActionExecutionFailed") {
+            const action = transaction.actions[Number(result.error.args.index)];
+            result.error.actionError = await simulateFailedAction(provider, account, action, options);
+        }
+        return result;
+    }
+    const [returnData] = managerInterface.decodeFunctionResult("executeTransaction", result.returnData);
+    return { success: true, returnData: [...returnData] };
+};
+
+/**
+ * Simulates `executeRootAccess` called by the plugin. Returns the return data of the action or the decoded error.
+ * The error of a failing action is not simulated, as the action is executed with a delegate call.
+ */
+export const simulateRootAccess = async (
+    provider: RpcProvider,
+    manager: AddressLike,
+    plugin: AddressLike,
+    account: AddressLike,
+    rootAccess: SafeRootAccess,
+    options: SimulationOptions = {},
+): Promise<SimulationResult> => {
+    const data = managerInterface.encodeFunctionData("executeRootAccess", [await resolveAddress(account), rootAccess]);
+    const result = await simulateCall(provider, await toCallRequest(plugin, manager, data), options);
+    if (!result.success) {
+        return result;
+    }
+    const [returnData] = managerInterface.decodeFunctionResult("executeRootAccess", result.returnData);
+    return { success: true, returnData: [returnData] };
+};
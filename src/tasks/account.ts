@@ -0,0 +1,156 @@
+import "hardhat-deploy";
+import { ZeroAddress, zeroPadValue, toBeHex } from "ethers";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { ISafeProtocolRegistry, SafeProtocolManager, SignatureValidatorManager } from "../../typechain-types";
+import { formatPermissions, ModuleType, MODULE_TYPES } from "../utils/bitmask";
+import { getPluginsWithPermissions } from "../utils/plugins";
+
+export type RegistryStatus = "permitted" | "flagged" | "not-listed";
+
+export interface InspectedModule {
+    type: ModuleType;
+    module: string;
+    /** Selector of a function handler or domain separator of a signature validator. */
+    key?: string;
+    /** Formatted permissions of a plugin. */
+    permissions?: string;
+    registryStatus: RegistryStatus;
+    listedAt: number;
+    flaggedAt: number;
+}
+
+export interface AccountInspection {
+    account: string;
+    manager: string;
+    signatureValidatorManager: string;
+    modules: InspectedModule[];
+}
+
+const getDeploymentAddress = async (hre: HardhatRuntimeEnvironment, name: string, address?: string): Promise<string> => {
+    return address ?? (await hre.deployments.get(name)).address;
+};
+
+/**
+ * Checks a module against the registry used by the contract that enables it, as this is the registry the
+ * contract consults when the module is used.
+ */
+const inspectModule = async (
+    registry: ISafeProtocolRegistry,
+    type: ModuleType,
+    module: string,
+    details: Pick<InspectedModule, "key" | "permissions"> = {},
+): Promise<InspectedModule> => {
+    const [listedAt, flaggedAt] = await registry.check(module, zeroPadValue(toBeHex(MODULE_TYPES[type]), 32));
+    // Modules can be flagged without being listed, e.g. in SafeProtocolThresholdRegistry before the threshold is reached.
+    const registryStatus: RegistryStatus = flaggedAt !== 0n ? "flagged" : listedAt === 0n ? "not-listed" : "permitted";
+    return { type, module, ...details, registryStatus, listedAt: Number(listedAt), flaggedAt: Number(flaggedAt) };
+};
+
+/**
+ * Returns the distinct values of an indexed event argument for which the current state still has to be read,
+ * e.g. the selectors for which a function handler was set at some point.
+ */
+const collectEventKeys = async <T>(events: Promise<{ args: T }[]>, key: (args: T) => string): Promise<string[]> => {
+    return [...new Set((await events).map((event) => key(event.args)))];
+};
+
+const printInspection = (inspection: AccountInspection) => {
+    console.log(`Account:                     ${inspection.account}`);
+    console.log(`Manager:                     ${inspection.manager}`);
+    console.log(`Signature validator manager: ${inspection.signatureValidatorManager}`);
+    console.log("");
+    if (inspection.modules.length === 0) {
+        console.log("No modules configured");
+        return;
+    }
+    console.log(`${"Type".padEnd(26)} ${"Module".padEnd(42)} ${"Registry".padEnd(10)} Details`);
+    inspection.modules.forEach((module) => {
+        const details = [module.key, module.permissions].filter((detail) => detail !== undefined).join(" ");
+        console.log(`${module.type.padEnd(26)} ${module.module} ${module.registryStatus.padEnd(10)} ${details}`);
+    });
+};
+
+task("account:inspect", "Displays the protocol configuration of an account")
+    .addParam("account", "address of the account", undefined, types.string)
+    .addParam("manager", "address of the manager, defaults to the deployed SafeProtocolManager", undefined, types.string, true)
+    .addParam(
+        "signatureValidatorManager",
+        "address of the signature validator manager, defaults to the deployed SignatureValidatorManager",
+        undefined,
+        types.string,
+        true,
+    )
+    .addParam("fromBlock", "block to start searching for configuration events", 0, types.int, true)
+    .addParam("json", "print the configuration as json", false, types.boolean, true)
+    .setAction(async (taskArgs, hre): Promise<AccountInspection> => {
+        const account: string = taskArgs.account;
+        const manager = (await hre.ethers.getContractAt(
+            "SafeProtocolManager",
+            await getDeploymentAddress(hre, "SafeProtocolManager", taskArgs.manager),
+        )) as unknown as SafeProtocolManager;
+        const signatureValidatorManager = (await hre.ethers.getContractAt(
+            "SignatureValidatorManager",
+            await getDeploymentAddress(hre, "SignatureValidatorManager", taskArgs.signatureValidatorManager),
+        )) as unknown as SignatureValidatorManager;
+        const managerRegistry = (await hre.ethers.getContractAt(
+            "ISafeProtocolRegistry",
+            await manager.registry(),
+        )) as unknown as ISafeProtocolRegistry;
+        const signatureValidatorRegistry = (await hre.ethers.getContractAt(
+            "ISafeProtocolRegistry",
+            await signatureValidatorManager.registry(),
+        )) as unknown as ISafeProtocolRegistry;
+
+        const modules: InspectedModule[] = [];
+
+        for (const { plugin, permissions } of await getPluginsWithPermissions(manager, account)) {
+            modules.push(await inspectModule(managerRegistry, "plugin", plugin, { permissions: formatPermissions(permissions) }));
+        }
+
+        const hooks = await manager.enabledHooks(account);
+        if (hooks !== ZeroAddress) {
+            modules.push(await inspectModule(managerRegistry, "hooks", hooks));
+        }
+
+        // Function handlers and signature validators are stored in mappings, so the keys are reconstructed from the events.
+        const selectors = await collectEventKeys(
+            manager.queryFilter(manager.filters.FunctionHandlerChanged(account), taskArgs.fromBlock),
+            (args) => args.selector,
+        );
+        for (const selector of selectors) {
+            const handler = await manager.functionHandlers(selector, account);
+            if (handler !== ZeroAddress) {
+                modules.push(await inspectModule(managerRegistry, "function-handler", handler, { key: selector }));
+            }
+        }
+
+        const domainSeparators = await collectEventKeys(
+            signatureValidatorManager.queryFilter(signatureValidatorManager.filters.SignatureValidatorChanged(account), taskArgs.fromBlock),
+            (args) => args.domainSeparator,
+        );
+        for (const domainSeparator of domainSeparators) {
+            const validator = await signatureValidatorManager.signatureValidators(domainSeparator, account);
+            if (validator !== ZeroAddress) {
+                modules.push(await inspectModule(signatureValidatorRegistry, "signature-validator", validator, { key: domainSeparator }));
+            }
+        }
+
+        const signatureValidatorHooks = await signatureValidatorManager.signatureValidatorHooks(account);
+        if (signatureValidatorHooks !== ZeroAddress) {
+            modules.push(await inspectModule(signatureValidatorRegistry, "signature-validator-hooks", signatureValidatorHooks));
+        }
+
+        const inspection: AccountInspection = {
+            account,
+            manager: await manager.getAddress(),
+            signatureValidatorManager: await signatureValidatorManager.getAddress(),
+            modules,
+        };
+        if (taskArgs.json) {
+            console.log(JSON.stringify(inspection, null, 2));
+        } else {
+            printInspection(inspection);
+        }
+        return inspection;
+    });
@@ -0,0 +1,15 @@
+import { task, types } from "hardhat/config";
+import { DecodedError, decodeError, formatDecodedError } from "../utils/errors";
+
+task("decode-error", "Decodes revert data into the error of the protocol contracts with an explanation and a suggested fix")
+    .addPositionalParam("data", "revert data as hex string", undefined, types.string)
+    .addParam("json", "print the decoded error as json", false, types.boolean, true)
+    .setAction(async (taskArgs): Promise<DecodedError> => {
+        const error = decodeError(taskArgs.data);
+        if (taskArgs.json) {
+            console.log(JSON.stringify(error, (_, value) => (typeof value === "bigint" ? value.toString() : value), 2));
+        } else {
+            console.log(formatDecodedError(error));
+        }
+        return error;
+    });
@@ -0,0 +1,137 @@
+import "hardhat-deploy";
+import { ZeroAddress } from "ethers";
+import { task, types } from "hardhat/config";
+import type { SafeProtocolManager, SignatureValidatorManager } from "../../typechain-types";
+import { FlaggedModuleExposure, getFlaggedModuleExposures, SyncResult } from "../indexer";
+import { AccountTransaction, encodeAccountCall } from "../utils/accountCall";
+import { getAllPlugins, SENTINEL_MODULES } from "../utils/plugins";
+
+export interface FlaggedModuleRemediation extends FlaggedModuleExposure {
+    transaction: AccountTransaction;
+}
+
+/**
+ * Resolves the `prevPlugin` arguments for disabling the given plugins of an account. The plugins are returned in list
+ * order, so the transactions remain valid when they are executed one after another.
+ */
+const resolvePrevPlugins = async (manager: SafeProtocolManager, account: string, flagged: string[]): Promise<[string, string][]> => {
+    const result: [string, string][] = [];
+    let prevPlugin = SENTINEL_MODULES;
+    for (const plugin of await getAllPlugins(manager, account)) {
+        if (flagged.includes(plugin)) {
+            result.push([prevPlugin, plugin]);
+        } else {
+            prevPlugin = plugin;
+        }
+    }
+    return result;
+};
+
+const buildRemediations = async (
+    manager: SafeProtocolManager,
+    signatureValidatorManager: SignatureValidatorManager | undefined,
+    exposures: FlaggedModuleExposure[],
+): Promise<FlaggedModuleRemediation[]> => {
+    const managerAddress = await manager.getAddress();
+    const transaction = (to: string, data: string): AccountTransaction => ({ to, value: "0", data, operation: 0 });
+
+    const remediations: FlaggedModuleRemediation[] = [];
+    for (const account of new Set(exposures.map((exposure) => exposure.account))) {
+        const accountExposures = exposures.filter((exposure) => exposure.account === account);
+
+        const flaggedPlugins = accountExposures.filter((exposure) => exposure.type === "plugin").map((exposure) => exposure.module);
+        for (const [prevPlugin, plugin] of await resolvePrevPlugins(manager, account, flaggedPlugins)) {
+            const exposure = accountExposures.find((exposure) => exposure.type === "plugin" && exposure.module === plugin)!;
+            const data = encodeAccountCall(manager, "disablePlugin", [prevPlugin, plugin], account);
+            remediations.push({ ...exposure, transaction: transaction(managerAddress, data) });
+        }
+
+        for (const exposure of accountExposures) {
+            switch (exposure.type) {
+                case "hooks":
+                    remediations.push({
+                        ...exposure,
+                        transaction: transaction(managerAddress, encodeAccountCall(manager, "setHooks", [ZeroAddress], account)),
+                    });
+                    break;
+                case "function-handler":
+                    remediations.push({
+                        ...exposure,
+                        transaction: transaction(
+                            managerAddress,
+                            encodeAccountCall(manager, "setFunctionHandler", [exposure.key!, ZeroAddress], account),
+                        ),
+                    });
+                    break;
+                // The signature validator manager uses msg.sender as the account, so no sender suffix is required.
+                case "signature-validator":
+                    remediations.push({
+                        ...exposure,
+                        transaction: transaction(
+                            await signatureValidatorManager!.getAddress(),
+                            signatureValidatorManager!.interface.encodeFunctionData("setSignatureValidator", [exposure.key!, ZeroAddress]),
+                        ),
+                    });
+                    break;
+                case "signature-validator-hooks":
+                    remediations.push({
+                        ...exposure,
+                        transaction: transaction(
+                            await signatureValidatorManager!.getAddress(),
+                            signatureValidatorManager!.interface.encodeFunctionData("setSignatureValidatorHooks", [ZeroAddress]),
+                        ),
+                    });
+                    break;
+            }
+        }
+    }
+    return remediations;
+};
+
+task("report:flagged-modules", "Lists the accounts that are still configured with flagged modules and the calldata to remove them")
+    .addParam("file", "index file, defaults to .indexer/<network>.json", undefined, types.string, true)
+    .addParam("manager", "address of the manager, defaults to the deployed SafeProtocolManager", undefined, types.string, true)
+    .addParam("registry", "address of the registry, defaults to the deployed SafeProtocolRegistry", undefined, types.string, true)
+    .addParam(
+        "signatureValidatorManager",
+        "address of the signature validator manager, defaults to the deployed SignatureValidatorManager",
+        undefined,
+        types.string,
+        true,
+    )
+    .addParam("fromBlock", "first block to index when creating a new index", 0, types.int, true)
+    .addParam("json", "print the report as json", false, types.boolean, true)
+    .setAction(async (taskArgs, hre): Promise<FlaggedModuleRemediation[]> => {
+        // The report is based on the local index, which is brought up to date first.
+        const { index }: SyncResult = await hre.run("indexer:sync", {
+            file: taskArgs.file,
+            manager: taskArgs.manager,
+            registry: taskArgs.registry,
+            signatureValidatorManager: taskArgs.signatureValidatorManager,
+            fromBlock: taskArgs.fromBlock,
+        });
+
+        const manager = (await hre.ethers.getContractAt("SafeProtocolManager", index.contracts.manager)) as unknown as SafeProtocolManager;
+        const signatureValidatorManager = index.contracts.signatureValidatorManager
+            ? ((await hre.ethers.getContractAt(
+                  "SignatureValidatorManager",
+                  index.contracts.signatureValidatorManager,
+              )) as unknown as SignatureValidatorManager)
+            : undefined;
+        const remediations = await buildRemediations(manager, signatureValidatorManager, getFlaggedModuleExposures(index));
+
+        if (taskArgs.json) {
+            console.log(JSON.stringify(remediations, null, 2));
+        } else if (remediations.length === 0) {
+            console.log("No accounts are configured with flagged modules");
+        } else {
+            remediations.forEach((remediation) => {
+                const key = remediation.key !== undefined ? ` ${remediation.key}` : "";
+                console.log(
+                    `${remediation.account} ${remediation.type}${key} ${remediation.module} flagged at block ${remediation.flaggedAtBlock}`,
+                );
+                console.log(`    to: ${remediation.transaction.to} data: ${remediation.transaction.data}`);
+            });
+        }
+        return remediations;
+    });
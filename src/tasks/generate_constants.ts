@@ -0,0 +1,135 @@
+import fs from "fs";
+import path from "path";
+import { task, types } from "hardhat/config";
+
+const ROOT_DIR = path.join(__dirname, "../..");
+const CONSTANTS_FILE = "contracts/common/Constants.sol";
+const OUTPUT_FILE = "src/utils/constants.ts";
+
+// Contract level constants that are exported in addition to the file level constants of Constants.sol.
+const CONTRACT_CONSTANTS: { file: string; names: string[] }[] = [
+    { file: "contracts/SignatureValidatorManager.sol", names: ["SIGNATURE_VALIDATOR_SELECTOR"] },
+];
+
+// Constants that were renamed in Solidity keep their previous name in TypeScript, so that package consumers do not break.
+const DEPRECATED_ALIASES: { name: string; target: string }[] = [
+    { name: "PLUGIN_PERMISSION_DELEGATE_CALL", target: "PLUGIN_PERMISSION_EXECUTE_DELEGATECALL" },
+];
+
+const CONSTANT_REGEX = /^\s*(uint\d*|int\d*|bytes\d+|address|bool)\s+(?:(?:public|internal|private)\s+)?constant\s+(\w+)\s*=\s*([^;]+);/;
+const COMMENT_REGEX = /^\s*\/\/\s?(.*)$/;
+// Any other line declaring a constant, e.g. one that spans multiple lines, cannot be parsed and is rejected.
+const DECLARATION_REGEX = /^\s*[^/*\s].*\bconstant\b/;
+
+export interface SolidityConstant {
+    name: string;
+    type: string;
+    value: string;
+    comments: string[];
+}
+
+/**
+ * Returns the TypeScript type and literal for a Solidity constant. Integers that do not fit into a
+ * javascript number are emitted as bigint.
+ */
+const toTypeScript = (constant: SolidityConstant): { type: string; literal: string } => {
+    const bits = parseInt(constant.type.replace(/^u?int/, "") || "256");
+    if (/^u?int/.test(constant.type)) {
+        if (!/^(0x[0-9a-fA-F]+|\d+)$/.test(constant.value)) {
+            throw new Error(`Cannot convert value "${constant.value}" of constant ${constant.name} to TypeScript`);
+        }
+        return bits <= 48
+            ? { type: "number", literal: BigInt(constant.value).toString() }
+            : { type: "bigint", literal: `${BigInt(constant.value)}n` };
+    }
+    if (constant.type === "bool") {
+        return { type: "boolean", literal: constant.value };
+    }
+    if (!/^0x[0-9a-fA-F]*$/.test(constant.value)) {
+        throw new Error(`Cannot convert value "${constant.value}" of constant ${constant.name} to TypeScript`);
+    }
+    return { type: "string", literal: `"${constant.value}"` };
+};
+
+/**
+ * Parses the constants of a Solidity file. Comment lines directly above a constant are kept so that the
+ * section headings (e.g. "// Module types") end up in the generated file. Throws for constant declarations
+ * that are not on a single line.
+ */
+export const parseConstants = (source: string, file: string): SolidityConstant[] => {
+    const constants: SolidityConstant[] = [];
+    let comments: string[] = [];
+    for (const [index, line] of source.split("\n").entries()) {
+        const commentMatch = line.match(COMMENT_REGEX);
+        if (commentMatch && !commentMatch[1].startsWith("SPDX-License-Identifier")) {
+            comments.push(commentMatch[1]);
+            continue;
+        }
+        const constantMatch = line.match(CONSTANT_REGEX);
+        if (constantMatch) {
+            constants.push({ type: constantMatch[1], name: constantMatch[2], value: constantMatch[3].trim(), comments });
+        } else if (DECLARATION_REGEX.test(line)) {
+            throw new Error(`Cannot parse constant declaration in ${file}:${index + 1}: "${line.trim()}"`);
+        }
+        comments = [];
+    }
+    return constants;
+};
+
+const renderConstants = (constants: SolidityConstant[]): string => {
+    return constants
+        .map((constant, index) => {
+            const { type, literal } = toTypeScript(constant);
+            const comments = constant.comments.map((comment) => `// ${comment}\n`).join("");
+            const separator = index > 0 && comments.length > 0 ? "\n" : "";
+            return `${separator}${comments}export const ${constant.name}: ${type} = ${literal};\n`;
+        })
+        .join("");
+};
+
+export const generateConstants = (): string => {
+    let content = `// This file is generated from the Solidity constants by \`yarn hardhat generate:constants\`. Do not edit it manually.\n\n`;
+    content += renderConstants(parseConstants(fs.readFileSync(path.join(ROOT_DIR, CONSTANTS_FILE), "utf8"), CONSTANTS_FILE));
+
+    for (const { file, names } of CONTRACT_CONSTANTS) {
+        const constants = parseConstants(fs.readFileSync(path.join(ROOT_DIR, file), "utf8"), file);
+        const selected = names.map((name) => {
+            const constant = constants.find((c) => c.name === name);
+            if (constant === undefined) {
+                throw new Error(`Constant ${name} not found in ${file}`);
+            }
+            // Only keep the comment line describing the constant itself.
+            return { ...constant, comments: constant.comments.slice(-1) };
+        });
+        content += `\n// ${file}\n${renderConstants(selected)}`;
+    }
+
+    content += "\n// Deprecated aliases\n";
+    for (const { name, target } of DEPRECATED_ALIASES) {
+        content += `/** @deprecated Use ${target} instead. */\nexport const ${name} = ${target};\n`;
+    }
+
+    return content;
+};
+
+task("generate:constants", "Generate src/utils/constants.ts from the Solidity constants")
+    .addParam("check", "only check if the generated file is up to date", false, types.boolean, true)
+    .addParam("output", "path of the generated file", OUTPUT_FILE, types.string, true)
+    .setAction(async (taskArgs) => {
+        const outputPath = path.resolve(ROOT_DIR, taskArgs.output);
+        const content = generateConstants();
+
+        if (taskArgs.check) {
+            const current = fs.existsSync(outputPath) ? fs.readFileSync(outputPath, "utf8") : "";
+            if (current !== content) {
+                console.error(`${taskArgs.output} is out of date. Run \`yarn hardhat generate:constants\` and commit the result.`);
+                process.exitCode = 1;
+                return;
+            }
+            console.log(`${taskArgs.output} is up to date.`);
+            return;
+        }
+
+        fs.writeFileSync(outputPath, content);
+        console.log(`Constants file generated: ${taskArgs.output}`);
+    });
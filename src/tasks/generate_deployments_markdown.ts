@@ -1,50 +1,148 @@
 // hardhat.config.js
 import "hardhat-deploy";
 import fs from "fs";
-import path from 'path';
-import { task } from "hardhat/config";
-import {NETWORK_ID_URL_MAPPING} from "../utils/etherscan_urls";
-
-task("generate:deployments", "Generate markdown file with deployed contract addresses")
-  .setAction(async () => {
-    if (!fs.existsSync(path.join(__dirname, "../../deployments.ts"))) {
-      console.error("No deployments file found. Please run the deployment script first.");
-      return;
-    }
+import path from "path";
+import { task, types } from "hardhat/config";
+import type { DeploymentsExport } from "../deployments";
+import { getAddressUrl } from "../utils/explorers";
 
-    const {default: deployments} = await import("../../deployments");
-    const markdownFile = "./docs/deployments.md";
+type OutputFormat = "markdown" | "markdown-per-network" | "json" | "csv";
 
-    const networks = Object.keys(deployments);
+const DEFAULT_OUTPUT: Record<OutputFormat, string> = {
+    markdown: "./docs/deployments.md",
+    "markdown-per-network": "./docs/deployments",
+    json: "./docs/deployments.json",
+    csv: "./docs/deployments.csv",
+};
 
-    if (networks.length === 0) {
-      console.error("No deployments found in the deployments file.");
-      return;
-    }
+export interface ContractEntry {
+    name: string;
+    address: string;
+    explorerUrl: string;
+}
 
+export interface NetworkEntry {
+    network: string;
+    chainId: string;
+    contracts: ContractEntry[];
+}
 
-    let markdownContent = "# Deployed Safe{Core} Protocol Contracts\n\n";
+const parseList = (value?: string): string[] | undefined =>
+    value
+        ?.split(",")
+        .map((item) => item.trim())
+        .filter((item) => item.length > 0);
 
-    networks.forEach((network) => {
-      if (deployments[network]) {
-        const contracts = deployments[network][0];
+/**
+ * Flattens the hardhat-deploy export into one entry per network. Every entry of the per-chain array is
+ * included, optionally filtered by chainId/network name and contract name.
+ */
+export const collectEntries = (deployments: DeploymentsExport, networks?: string[], contracts?: string[]): NetworkEntry[] => {
+    const entries: NetworkEntry[] = [];
+    for (const chainId of Object.keys(deployments)) {
+        for (const deployment of deployments[chainId]) {
+            if (networks && !networks.includes(chainId) && !networks.includes(deployment.name)) continue;
 
-        markdownContent += `## Network: ${contracts.name}\n\n`;
-        markdownContent += "| Contract Name | Address (click to view on Etherscan) |\n";
-        markdownContent += "| -------------- | -------------------------------- |\n";
+            const contractEntries = Object.keys(deployment.contracts)
+                .filter((contractName) => !contracts || contracts.includes(contractName))
+                .map((contractName) => {
+                    const address = deployment.contracts[contractName].address;
+                    return { name: contractName, address, explorerUrl: getAddressUrl(chainId, address) };
+                });
 
-        Object.keys(contracts.contracts).forEach((contractName) => {
-          const contractAddress = contracts.contracts[contractName].address;
-          const etherscanUrl = `${NETWORK_ID_URL_MAPPING[network]}/address/${contractAddress}`;
-          markdownContent += `| ${contractName} | <a href="${etherscanUrl}" target="_blank">${contractAddress}</a> |\n`;
+            if (contractEntries.length > 0) {
+                entries.push({ network: deployment.name, chainId: deployment.chainId, contracts: contractEntries });
+            }
+        }
+    }
+    return entries;
+};
 
-        });
+const renderMarkdownSection = (entry: NetworkEntry): string => {
+    let content = `## Network: ${entry.network}\n\n`;
+    content += "| Contract Name | Address (click to view on Etherscan) |\n";
+    content += "| -------------- | -------------------------------- |\n";
+    entry.contracts.forEach((contract) => {
+        content += `| ${contract.name} | <a href="${contract.explorerUrl}" target="_blank">${contract.address}</a> |\n`;
+    });
+    return content + "\n";
+};
 
-        markdownContent += "\n";
-      }
+const renderMarkdown = (entries: NetworkEntry[]): string => {
+    return "# Deployed Safe{Core} Protocol Contracts\n\n" + entries.map(renderMarkdownSection).join("");
+};
+
+const renderJson = (entries: NetworkEntry[]): string => {
+    return JSON.stringify(entries, null, 2) + "\n";
+};
+
+const escapeCsv = (value: string): string => (/[",\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value);
+
+export const renderCsv = (entries: NetworkEntry[]): string => {
+    const rows = [["network", "chainId", "contract", "address", "explorerUrl"]];
+    entries.forEach((entry) => {
+        entry.contracts.forEach((contract) => {
+            rows.push([entry.network, entry.chainId, contract.name, contract.address, contract.explorerUrl]);
+        });
     });
+    return rows.map((row) => row.map(escapeCsv).join(",")).join("\n") + "\n";
+};
 
-    fs.writeFileSync(markdownFile, markdownContent);
+const writeFile = (file: string, content: string) => {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, content);
+};
 
-    console.log(`Markdown file with deployed contract addresses generated: ${markdownFile}`);
-  });
+task("generate:deployments", "Generate a file with deployed contract addresses")
+    .addParam("format", "output format: markdown, markdown-per-network, json or csv", "markdown", types.string, true)
+    .addParam("output", "output file, or output directory for markdown-per-network", undefined, types.string, true)
+    .addParam("chains", "comma separated list of chainIds or network names to include", undefined, types.string, true)
+    .addParam("contracts", "comma separated list of contract names to include", undefined, types.string, true)
+    .setAction(async (taskArgs) => {
+        if (!fs.existsSync(path.join(__dirname, "../../deployments.ts"))) {
+            console.error("No deployments file found. Please run the deployment script first.");
+            return;
+        }
+
+        const format = taskArgs.format as OutputFormat;
+        if (DEFAULT_OUTPUT[format] === undefined) {
+            console.error(`Unknown format "${taskArgs.format}". Valid formats are: ${Object.keys(DEFAULT_OUTPUT).join(", ")}`);
+            process.exitCode = 1;
+            return;
+        }
+
+        const { default: deployments } = await import("../../deployments");
+        const entries = collectEntries(deployments as DeploymentsExport, parseList(taskArgs.chains), parseList(taskArgs.contracts));
+
+        if (entries.length === 0) {
+            console.error(
+                taskArgs.chains || taskArgs.contracts
+                    ? "No deployments match the given filters."
+                    : "No deployments found in the deployments file.",
+            );
+            return;
+        }
+
+        const output: string = taskArgs.output ?? DEFAULT_OUTPUT[format];
+
+        if (format === "markdown-per-network") {
+            // Check all file names before writing, so that the output directory is not left half updated.
+            const files = entries.map((entry) => path.join(output, `${entry.network}.md`));
+            const duplicate = entries.find((_, index) => files.indexOf(files[index]) !== index);
+            if (duplicate !== undefined) {
+                throw new Error(`Network name ${duplicate.network} is used by more than one deployment`);
+            }
+            entries.forEach((entry, index) => writeFile(files[index], renderMarkdown([entry])));
+            console.log(`Markdown files with deployed contract addresses generated: ${files.join(", ")}`);
+            return;
+        }
+
+        const renderers: Record<Exclude<OutputFormat, "markdown-per-network">, (entries: NetworkEntry[]) => string> = {
+            markdown: renderMarkdown,
+            json: renderJson,
+            csv: renderCsv,
+        };
+        writeFile(output, renderers[format](entries));
+
+        console.log(`File with deployed contract addresses generated: ${output}`);
+    });
@@ -0,0 +1,57 @@
+import "hardhat-deploy";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { syncIndex, SyncResult } from "../indexer";
+
+const getOptionalDeploymentAddress = async (hre: HardhatRuntimeEnvironment, name: string): Promise<string | undefined> => {
+    return (await hre.deployments.getOrNull(name))?.address;
+};
+
+task("indexer:sync", "Indexes the events of the protocol contracts into a local JSON file")
+    .addParam("file", "index file, defaults to .indexer/<network>.json", undefined, types.string, true)
+    .addParam("manager", "address of the manager, defaults to the deployed SafeProtocolManager", undefined, types.string, true)
+    .addParam("registry", "address of the registry, defaults to the deployed SafeProtocolRegistry", undefined, types.string, true)
+    .addParam(
+        "signatureValidatorManager",
+        "address of the signature validator manager, defaults to the deployed SignatureValidatorManager",
+        undefined,
+        types.string,
+        true,
+    )
+    .addParam("fromBlock", "first block to index when creating a new index", 0, types.int, true)
+    .addParam("toBlock", "last block to index, defaults to the latest block", undefined, types.int, true)
+    .addParam("batchSize", "number of blocks requested per eth_getLogs call", 2000, types.int, true)
+    .addParam("confirmations", "number of blocks behind the latest block that are not indexed yet", 0, types.int, true)
+    .setAction(async (taskArgs, hre): Promise<SyncResult> => {
+        const manager = taskArgs.manager ?? (await getOptionalDeploymentAddress(hre, "SafeProtocolManager"));
+        if (manager === undefined) {
+            throw new Error(`No SafeProtocolManager deployed on network ${hre.network.name}. Use --manager to set the address.`);
+        }
+        const file: string = taskArgs.file ?? `.indexer/${hre.network.name}.json`;
+
+        const result = await syncIndex(hre.ethers.provider, {
+            file,
+            contracts: {
+                manager,
+                registry: taskArgs.registry ?? (await getOptionalDeploymentAddress(hre, "SafeProtocolRegistry")),
+                signatureValidatorManager:
+                    taskArgs.signatureValidatorManager ?? (await getOptionalDeploymentAddress(hre, "SignatureValidatorManager")),
+            },
+            fromBlock: taskArgs.fromBlock,
+            toBlock: taskArgs.toBlock,
+            batchSize: taskArgs.batchSize,
+            confirmations: taskArgs.confirmations,
+        });
+
+        if (result.rewoundTo === null) {
+            console.log("Reorg deeper than the stored checkpoints, the index was rebuilt from the start");
+        } else if (result.rewoundTo !== undefined) {
+            console.log(`Reorg detected, the index was rewound to block ${result.rewoundTo.number}`);
+        }
+        const { index } = result;
+        console.log(
+            `Indexed ${result.newEvents} new events up to block ${index.checkpoint?.number ?? "-"} into ${file} ` +
+                `(${index.events.length} events, ${Object.keys(index.state.accounts).length} accounts)`,
+        );
+        return result;
+    });
@@ -0,0 +1,99 @@
+import "hardhat-deploy";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { ISafeProtocolPlugin, SafeProtocolManager, TestExecutor } from "../../typechain-types";
+import { AccountTransaction, encodeAccountCall } from "../utils/accountCall";
+import { formatPermissions } from "../utils/bitmask";
+import { ModuleMetadata, resolveModuleMetadata } from "../utils/metadataProvider";
+import { findPrevPlugin, getPluginsWithPermissions } from "../utils/plugins";
+
+const getManager = async (hre: HardhatRuntimeEnvironment, address?: string): Promise<SafeProtocolManager> => {
+    const managerAddress = address ?? (await hre.deployments.get("SafeProtocolManager")).address;
+    return (await hre.ethers.getContractAt("SafeProtocolManager", managerAddress)) as unknown as SafeProtocolManager;
+};
+
+const buildAccountTransaction = async (manager: SafeProtocolManager, data: string): Promise<AccountTransaction> => {
+    return { to: await manager.getAddress(), value: "0", data, operation: 0 };
+};
+
+/**
+ * Executes the transaction through a local test account (TestExecutor) or prints it, so that it can be proposed
+ * to the account e.g. a Safe.
+ */
+const submitAccountTransaction = async (
+    hre: HardhatRuntimeEnvironment,
+    account: string,
+    transaction: AccountTransaction,
+    execute: boolean,
+) => {
+    if (!execute) {
+        console.log(JSON.stringify(transaction, null, 2));
+        return;
+    }
+    const executor = (await hre.ethers.getContractAt("TestExecutor", account)) as unknown as TestExecutor;
+    // Simulate the call first so that a revert is reported before a transaction is sent.
+    await executor.exec.staticCall(transaction.to, transaction.value, transaction.data);
+    const tx = await executor.exec(transaction.to, transaction.value, transaction.data);
+    await tx.wait();
+    console.log(`Transaction executed through account ${account} in tx ${tx.hash}`);
+};
+
+task("plugin:enable", "Builds the account transaction that enables a plugin with the permissions it requires")
+    .addParam("account", "address of the account", undefined, types.string)
+    .addParam("plugin", "address of the plugin", undefined, types.string)
+    .addParam("manager", "address of the manager, defaults to the deployed SafeProtocolManager", undefined, types.string, true)
+    .addParam("execute", "execute the transaction through the account, which has to be a TestExecutor", false, types.boolean, true)
+    .setAction(async (taskArgs, hre) => {
+        const manager = await getManager(hre, taskArgs.manager);
+        if (await manager.isPluginEnabled(taskArgs.account, taskArgs.plugin)) {
+            throw new Error(`Plugin ${taskArgs.plugin} is already enabled for account ${taskArgs.account}`);
+        }
+
+        // The permissions have to match requiresPermissions() exactly, otherwise enablePlugin reverts with PluginPermissionsMismatch.
+        const plugin = (await hre.ethers.getContractAt("ISafeProtocolPlugin", taskArgs.plugin)) as unknown as ISafeProtocolPlugin;
+        const permissions = await plugin.requiresPermissions();
+        console.log(`Plugin ${taskArgs.plugin} requires permissions ${formatPermissions(Number(permissions))}`);
+
+        // The account address is appended to the calldata, as the manager checks it against the sender of the call.
+        const data = encodeAccountCall(manager, "enablePlugin", [taskArgs.plugin, permissions], taskArgs.account);
+        const transaction = await buildAccountTransaction(manager, data);
+        await submitAccountTransaction(hre, taskArgs.account, transaction, taskArgs.execute);
+        return transaction;
+    });
+
+task("plugin:disable", "Builds the account transaction that disables a plugin")
+    .addParam("account", "address of the account", undefined, types.string)
+    .addParam("plugin", "address of the plugin", undefined, types.string)
+    .addParam("manager", "address of the manager, defaults to the deployed SafeProtocolManager", undefined, types.string, true)
+    .addParam("execute", "execute the transaction through the account, which has to be a TestExecutor", false, types.boolean, true)
+    .setAction(async (taskArgs, hre) => {
+        const manager = await getManager(hre, taskArgs.manager);
+        const prevPlugin = await findPrevPlugin(manager, taskArgs.account, taskArgs.plugin);
+
+        const data = encodeAccountCall(manager, "disablePlugin", [prevPlugin, taskArgs.plugin], taskArgs.account);
+        const transaction = await buildAccountTransaction(manager, data);
+        await submitAccountTransaction(hre, taskArgs.account, transaction, taskArgs.execute);
+        return transaction;
+    });
+
+task("plugin:list", "Lists the plugins enabled for an account")
+    .addParam("account", "address of the account", undefined, types.string)
+    .addParam("manager", "address of the manager, defaults to the deployed SafeProtocolManager", undefined, types.string, true)
+    .setAction(async (taskArgs, hre) => {
+        const manager = await getManager(hre, taskArgs.manager);
+        const plugins = await getPluginsWithPermissions(manager, taskArgs.account);
+        if (plugins.length === 0) {
+            console.log(`No plugins enabled for account ${taskArgs.account}`);
+        }
+        plugins.forEach(({ plugin, permissions }) => console.log(`${plugin} ${formatPermissions(permissions)}`));
+        return plugins.map(({ plugin }) => plugin);
+    });
+
+task("plugin:metadata", "Loads the metadata of a plugin or function handler from its metadata provider")
+    .addParam("module", "address of the plugin or function handler", undefined, types.string)
+    .addParam("fromBlock", "first block searched for the metadata event of an event based provider", 0, types.int, true)
+    .setAction(async (taskArgs, hre): Promise<ModuleMetadata> => {
+        const metadata = await resolveModuleMetadata(hre.ethers.provider, taskArgs.module, { fromBlock: taskArgs.fromBlock });
+        console.log(JSON.stringify(metadata, null, 2));
+        return metadata;
+    });
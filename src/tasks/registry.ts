@@ -0,0 +1,262 @@
+import "hardhat-deploy";
+import { dataLength } from "ethers";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import type { SafeProtocolRegistry } from "../../typechain-types";
+import { decodeModuleTypes, formatModuleTypes, MODULE_TYPES, parseModuleTypes } from "../utils/bitmask";
+import {
+    REGISTRY_REASON_DEPRECATED,
+    REGISTRY_REASON_FLAGGED_BY_MISTAKE,
+    REGISTRY_REASON_ISSUE_RESOLVED,
+    REGISTRY_REASON_UNSPECIFIED,
+} from "../utils/constants";
+import { decodeError, formatDecodedError, getRevertData } from "../utils/errors";
+import { getListedModules } from "../utils/registry";
+
+const REGISTRY_REASONS: Record<string, number> = {
+    unspecified: REGISTRY_REASON_UNSPECIFIED,
+    "flagged-by-mistake": REGISTRY_REASON_FLAGGED_BY_MISTAKE,
+    "issue-resolved": REGISTRY_REASON_ISSUE_RESOLVED,
+    deprecated: REGISTRY_REASON_DEPRECATED,
+};
+
+/**
+ * Parses a reason code for unflagging or delisting a module, given by name or as a number up to 255.
+ */
+const parseReason = (reason: string): number => {
+    const value = reason.trim().toLowerCase();
+    if (value in REGISTRY_REASONS) {
+        return REGISTRY_REASONS[value];
+    }
+    if (/^[0-9]+$/.test(value) && Number(value) <= 255) {
+        return Number(value);
+    }
+    throw new Error(`Unknown reason "${reason}". Use a number up to 255 or one of: ${Object.keys(REGISTRY_REASONS).join(", ")}`);
+};
+
+/**
+ * Parses the module type of the tasks that query a single module type, which the registry does not accept combined.
+ */
+const parseModuleType = (type: string): number => {
+    const moduleType = parseModuleTypes(type);
+    if (decodeModuleTypes(moduleType).length !== 1) {
+        throw new Error(`Expected exactly one module type, got "${type}". Valid values are: ${Object.keys(MODULE_TYPES).join(", ")}`);
+    }
+    return moduleType;
+};
+
+const formatReason = (reason: number): string => {
+    const name = Object.keys(REGISTRY_REASONS).find((key) => REGISTRY_REASONS[key] === reason);
+    return name !== undefined ? `${name} (${reason})` : `${reason}`;
+};
+
+const formatTimestamp = (timestamp: bigint): string => {
+    return timestamp === 0n ? "-" : `${timestamp} (${new Date(Number(timestamp) * 1000).toISOString()})`;
+};
+
+/**
+ * Converts errors thrown by the registry into a human readable message. Errors that do not originate from
+ * a contract call are rethrown as is.
+ */
+const describeRegistryError = (error: unknown): string => {
+    const data = getRevertData(error);
+    if (data === undefined && !/revert/i.test((error as Error).message ?? "")) {
+        throw error;
+    }
+    if (data === undefined || dataLength(data) === 0) {
+        return "Registry call reverted without a reason. Check that the module is a contract implementing ERC165.";
+    }
+    const decoded = decodeError(data);
+    if (decoded.name === "Error" && decoded.args.reason === "Ownable: caller is not the owner") {
+        return "Only the registry owner can perform this operation. Use --from to select the owner account.";
+    }
+    return formatDecodedError(decoded);
+};
+
+const getRegistry = async (hre: HardhatRuntimeEnvironment, address?: string, from?: string): Promise<SafeProtocolRegistry> => {
+    const registryAddress = address ?? (await hre.deployments.get("SafeProtocolRegistry")).address;
+    const signer = from !== undefined ? await hre.ethers.getSigner(from) : await hre.ethers.getSigner((await hre.getNamedAccounts()).owner);
+    return (await hre.ethers.getContractAt("SafeProtocolRegistry", registryAddress, signer)) as unknown as SafeProtocolRegistry;
+};
+
+task("registry:add", "Adds a module to the SafeProtocolRegistry")
+    .addParam("module", "address of the module", undefined, types.string)
+    .addParam("types", "comma separated list of module types e.g. plugin,hooks", undefined, types.string)
+    .addParam("registry", "address of the registry, defaults to the deployed SafeProtocolRegistry", undefined, types.string, true)
+    .addParam("from", "address of the registry owner, defaults to the owner named account", undefined, types.string, true)
+    .setAction(async (taskArgs, hre) => {
+        const registry = await getRegistry(hre, taskArgs.registry, taskArgs.from);
+        const moduleTypes = parseModuleTypes(taskArgs.types);
+        try {
+            // Simulate the call first so that the revert data is available for decoding.
+            await registry.addModule.staticCall(taskArgs.module, moduleTypes);
+            const tx = await registry.addModule(taskArgs.module, moduleTypes);
+            await tx.wait();
+            console.log(`Module ${taskArgs.module} added as ${formatModuleTypes(moduleTypes)} in tx ${tx.hash}`);
+        } catch (error) {
+            console.error(describeRegistryError(error));
+            process.exitCode = 1;
+        }
+    });
+
+task("registry:flag", "Flags a module listed in the SafeProtocolRegistry")
+    .addParam("module", "address of the module", undefined, types.string)
+    .addParam("registry", "address of the registry, defaults to the deployed SafeProtocolRegistry", undefined, types.string, true)
+    .addParam("from", "address of the registry owner, defaults to the owner named account", undefined, types.string, true)
+    .setAction(async (taskArgs, hre) => {
+        const registry = await getRegistry(hre, taskArgs.registry, taskArgs.from);
+        try {
+            await registry.flagModule.staticCall(taskArgs.module);
+            const tx = await registry.flagModule(taskArgs.module);
+            await tx.wait();
+            console.log(`Module ${taskArgs.module} flagged in tx ${tx.hash}`);
+        } catch (error) {
+            console.error(describeRegistryError(error));
+            process.exitCode = 1;
+        }
+    });
+
+task("registry:update-types", "Adds module types to a module listed in the SafeProtocolRegistry")
+    .addParam("module", "address of the module", undefined, types.string)
+    .addParam("types", "comma separated list of module types to add e.g. function-handler", undefined, types.string)
+    .addParam("registry", "address of the registry, defaults to the deployed SafeProtocolRegistry", undefined, types.string, true)
+    .addParam("from", "address of the registry owner, defaults to the owner named account", undefined, types.string, true)
+    .setAction(async (taskArgs, hre) => {
+        const registry = await getRegistry(hre, taskArgs.registry, taskArgs.from);
+        const addedTypes = parseModuleTypes(taskArgs.types);
+        try {
+            await registry.updateModuleTypes.staticCall(taskArgs.module, addedTypes);
+            const tx = await registry.updateModuleTypes(taskArgs.module, addedTypes);
+            await tx.wait();
+            console.log(`Module ${taskArgs.module} added as ${formatModuleTypes(addedTypes)} in tx ${tx.hash}`);
+        } catch (error) {
+            console.error(describeRegistryError(error));
+            process.exitCode = 1;
+        }
+    });
+
+task("registry:unflag", "Unflags a flagged module, which makes it permitted again for its module types")
+    .addParam("module", "address of the module", undefined, types.string)
+    .addParam("reason", "unspecified, flagged-by-mistake, issue-resolved, deprecated or a number", "unspecified", types.string, true)
+    .addParam("registry", "address of the registry, defaults to the deployed SafeProtocolRegistry", undefined, types.string, true)
+    .addParam("from", "address of the registry owner, defaults to the owner named account", undefined, types.string, true)
+    .setAction(async (taskArgs, hre) => {
+        const registry = await getRegistry(hre, taskArgs.registry, taskArgs.from);
+        const reason = parseReason(taskArgs.reason);
+        try {
+            await registry.unflagModule.staticCall(taskArgs.module, reason);
+            const tx = await registry.unflagModule(taskArgs.module, reason);
+            await tx.wait();
+            console.log(`Module ${taskArgs.module} unflagged with reason ${formatReason(reason)} in tx ${tx.hash}`);
+        } catch (error) {
+            console.error(describeRegistryError(error));
+            process.exitCode = 1;
+        }
+    });
+
+task("registry:delist", "Removes a module from the SafeProtocolRegistry, it can be added again afterwards")
+    .addParam("module", "address of the module", undefined, types.string)
+    .addParam("reason", "unspecified, flagged-by-mistake, issue-resolved, deprecated or a number", "unspecified", types.string, true)
+    .addParam("registry", "address of the registry, defaults to the deployed SafeProtocolRegistry", undefined, types.string, true)
+    .addParam("from", "address of the registry owner, defaults to the owner named account", undefined, types.string, true)
+    .setAction(async (taskArgs, hre) => {
+        const registry = await getRegistry(hre, taskArgs.registry, taskArgs.from);
+        const reason = parseReason(taskArgs.reason);
+        try {
+            await registry.delistModule.staticCall(taskArgs.module, reason);
+            const tx = await registry.delistModule(taskArgs.module, reason);
+            await tx.wait();
+            console.log(`Module ${taskArgs.module} delisted with reason ${formatReason(reason)} in tx ${tx.hash}`);
+        } catch (error) {
+            console.error(describeRegistryError(error));
+            process.exitCode = 1;
+        }
+    });
+
+task("registry:set-metadata", "Sets the metadata of a module listed in the SafeProtocolRegistry")
+    .addParam("module", "address of the module", undefined, types.string)
+    .addParam("metadata", "bytes32 metadata e.g. the hash of an audit report, zero to remove it", undefined, types.string)
+    .addParam("registry", "address of the registry, defaults to the deployed SafeProtocolRegistry", undefined, types.string, true)
+    .addParam("from", "address of the registry owner, defaults to the owner named account", undefined, types.string, true)
+    .setAction(async (taskArgs, hre) => {
+        const registry = await getRegistry(hre, taskArgs.registry, taskArgs.from);
+        if (!hre.ethers.isHexString(taskArgs.metadata, 32)) {
+            throw new Error(`Metadata ${taskArgs.metadata} is not a bytes32 hex string`);
+        }
+        try {
+            await registry.setModuleMetadata.staticCall(taskArgs.module, taskArgs.metadata);
+            const tx = await registry.setModuleMetadata(taskArgs.module, taskArgs.metadata);
+            await tx.wait();
+            console.log(`Metadata of module ${taskArgs.module} set to ${taskArgs.metadata} in tx ${tx.hash}`);
+        } catch (error) {
+            console.error(describeRegistryError(error));
+            process.exitCode = 1;
+        }
+    });
+
+task("registry:list", "Lists the modules listed in the SafeProtocolRegistry with a module type")
+    .addParam("type", "module type e.g. plugin", undefined, types.string)
+    .addParam("includeFlagged", "include flagged modules", false, types.boolean, true)
+    .addParam("pageSize", "number of modules requested per call", 50, types.int, true)
+    .addParam("registry", "address of the registry, defaults to the deployed SafeProtocolRegistry", undefined, types.string, true)
+    .addParam("json", "print the modules as json", false, types.boolean, true)
+    .setAction(async (taskArgs, hre) => {
+        const registry = await getRegistry(hre, taskArgs.registry);
+        const modules = await getListedModules(registry, parseModuleType(taskArgs.type), {
+            includeFlagged: taskArgs.includeFlagged,
+            pageSize: taskArgs.pageSize,
+        });
+
+        if (taskArgs.json) {
+            console.log(JSON.stringify(modules, null, 2));
+        } else if (modules.length === 0) {
+            console.log(`No modules listed as ${taskArgs.type}`);
+        } else {
+            for (const { module, listedAt, flaggedAt, moduleTypes } of modules) {
+                const flagged = flaggedAt !== 0 ? `, flagged at ${formatTimestamp(BigInt(flaggedAt))}` : "";
+                console.log(`${module} ${formatModuleTypes(moduleTypes)} listed at ${formatTimestamp(BigInt(listedAt))}${flagged}`);
+            }
+        }
+        return modules;
+    });
+
+task("registry:check", "Checks if a module is listed and not flagged for a module type")
+    .addParam("module", "address of the module", undefined, types.string)
+    .addParam("type", "module type e.g. plugin", undefined, types.string)
+    .addParam("registry", "address of the registry, defaults to the deployed SafeProtocolRegistry", undefined, types.string, true)
+    .setAction(async (taskArgs, hre) => {
+        const registry = await getRegistry(hre, taskArgs.registry);
+        const moduleType = parseModuleType(taskArgs.type);
+        const [listedAt, flaggedAt] = await registry.check(taskArgs.module, hre.ethers.zeroPadValue(hre.ethers.toBeHex(moduleType), 32));
+        const permitted = listedAt !== 0n && flaggedAt === 0n;
+
+        console.log(`Module:     ${taskArgs.module}`);
+        console.log(`Type:       ${formatModuleTypes(moduleType)}`);
+        console.log(`Listed at:  ${formatTimestamp(listedAt)}`);
+        console.log(`Flagged at: ${formatTimestamp(flaggedAt)}`);
+        console.log(`Permitted:  ${permitted}`);
+        if (!permitted) process.exitCode = 1;
+    });
+
+task("registry:info", "Displays the information stored in the SafeProtocolRegistry about a module")
+    .addParam("module", "address of the module", undefined, types.string)
+    .addParam("registry", "address of the registry, defaults to the deployed SafeProtocolRegistry", undefined, types.string, true)
+    .setAction(async (taskArgs, hre) => {
+        const registry = await getRegistry(hre, taskArgs.registry);
+        const [listedAt, flaggedAt, moduleTypes, metadata] = await registry.getModuleInfo(taskArgs.module);
+
+        console.log(`Registry:     ${await registry.getAddress()} (owner ${await registry.owner()})`);
+        console.log(`Module:       ${taskArgs.module}`);
+        console.log(`Module types: ${formatModuleTypes(moduleTypes)}`);
+        console.log(`Listed at:    ${formatTimestamp(listedAt)}`);
+        console.log(`Flagged at:   ${formatTimestamp(flaggedAt)}`);
+        console.log(`Metadata:     ${BigInt(metadata) === 0n ? "-" : metadata}`);
+        for (const moduleType of decodeModuleTypes(moduleTypes)) {
+            const typeListedAt = await registry.moduleTypeListedAt(taskArgs.module, MODULE_TYPES[moduleType]);
+            if (typeListedAt !== 0n) {
+                console.log(`  ${moduleType} listed at ${formatTimestamp(typeListedAt)}`);
+            }
+        }
+    });
+
+export {};
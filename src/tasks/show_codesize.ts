@@ -1,20 +1,93 @@
 import "hardhat-deploy";
+import fs from "fs";
 import { task, types } from "hardhat/config";
-import { loadSolc } from "../utils/solc";
+
+// EIP-170 limit for the runtime code and EIP-3860 limit for the initcode.
+const DEPLOYED_CODE_SIZE_LIMIT = 24576;
+const INITCODE_SIZE_LIMIT = 49152;
+
+export interface CodeSize {
+    name: string;
+    source: string;
+    deployedSize: number;
+    initcodeSize: number;
+    deployedSizeDelta?: number;
+    initcodeSizeDelta?: number;
+}
+
+type Baseline = Record<string, { deployedSize: number; initcodeSize: number }>;
+
+const byteLength = (bytecode: string): number => Math.max(0, (bytecode.length - 2) / 2);
+
+const formatDelta = (delta?: number): string => (delta === undefined ? "" : ` (${delta >= 0 ? "+" : ""}${delta})`);
 
 task("codesize", "Displays the codesize of the contracts")
     .addParam("skipcompile", "should not compile before printing size", false, types.boolean, true)
     .addParam("contractname", "name of the contract", undefined, types.string, true)
-    .setAction(async (taskArgs, hre) => {
+    .addParam("includeTests", "include contracts in contracts/test and dependencies", false, types.boolean, true)
+    .addParam("json", "print the sizes as json", false, types.boolean, true)
+    .addParam(
+        "failOver",
+        "fail if the deployed code of a contract exceeds the given number of bytes",
+        DEPLOYED_CODE_SIZE_LIMIT,
+        types.int,
+        true,
+    )
+    .addParam("baseline", "baseline file to compare the sizes with", "codesize.json", types.string, true)
+    .addParam("writeBaseline", "write the current sizes to the baseline file", false, types.boolean, true)
+    .setAction(async (taskArgs, hre): Promise<CodeSize[]> => {
         if (!taskArgs.skipcompile) {
             await hre.run("compile");
         }
+        const baseline: Baseline = fs.existsSync(taskArgs.baseline) ? JSON.parse(fs.readFileSync(taskArgs.baseline, "utf8")) : {};
+
+        const sizes: CodeSize[] = [];
         const contracts = await hre.artifacts.getAllFullyQualifiedNames();
         for (const contract of contracts) {
             const artifact = await hre.artifacts.readArtifact(contract);
             if (taskArgs.contractname && taskArgs.contractname !== artifact.contractName) continue;
-            console.log(artifact.contractName, Math.max(0, (artifact.deployedBytecode.length - 2) / 2), "bytes (limit is 24576)");
+            if (
+                !taskArgs.includeTests &&
+                (!artifact.sourceName.startsWith("contracts/") || artifact.sourceName.startsWith("contracts/test/"))
+            )
+                continue;
+            // Interfaces and abstract contracts have no code.
+            if (artifact.bytecode === "0x") continue;
+
+            const size: CodeSize = {
+                name: artifact.contractName,
+                source: artifact.sourceName,
+                deployedSize: byteLength(artifact.deployedBytecode),
+                initcodeSize: byteLength(artifact.bytecode),
+            };
+            if (baseline[size.name] !== undefined) {
+                size.deployedSizeDelta = size.deployedSize - baseline[size.name].deployedSize;
+                size.initcodeSizeDelta = size.initcodeSize - baseline[size.name].initcodeSize;
+            }
+            sizes.push(size);
+        }
+
+        if (taskArgs.json) {
+            console.log(JSON.stringify(sizes, null, 2));
+        } else {
+            for (const size of sizes) {
+                console.log(
+                    size.name,
+                    `${size.deployedSize}${formatDelta(size.deployedSizeDelta)} bytes (limit is ${DEPLOYED_CODE_SIZE_LIMIT}),`,
+                    `initcode ${size.initcodeSize}${formatDelta(size.initcodeSizeDelta)} bytes (limit is ${INITCODE_SIZE_LIMIT})`,
+                );
+            }
         }
-    });
 
-export {};
\ No newline at end of file
+        if (taskArgs.writeBaseline) {
+            const newBaseline: Baseline = {};
+            sizes.forEach((size) => (newBaseline[size.name] = { deployedSize: size.deployedSize, initcodeSize: size.initcodeSize }));
+            fs.writeFileSync(taskArgs.baseline, JSON.stringify(newBaseline, null, 2) + "\n");
+        }
+
+        const oversized = sizes.filter((size) => size.deployedSize > taskArgs.failOver || size.initcodeSize > INITCODE_SIZE_LIMIT);
+        if (oversized.length > 0) {
+            throw new Error(`Contracts exceeding the code size limits: ${oversized.map((size) => size.name).join(", ")}`);
+        }
+        return sizes;
+    });
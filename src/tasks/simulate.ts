@@ -0,0 +1,47 @@
+import "hardhat-deploy";
+import { ZeroHash } from "ethers";
+import { task, types } from "hardhat/config";
+import { SimulationResult, simulateRootAccess, simulateTransaction } from "../simulator";
+import { SafeProtocolAction } from "../utils/dataTypes";
+
+// Bigints of the decoded errors are printed as decimal strings.
+const stringifyResult = (result: SimulationResult): string => {
+    return JSON.stringify(result, (_, value) => (typeof value === "bigint" ? value.toString() : value), 2);
+};
+
+task("tx:simulate", "Simulates the execution of an action by a plugin without sending a transaction")
+    .addParam("plugin", "address of the plugin that executes the action", undefined, types.string)
+    .addParam("account", "address of the account", undefined, types.string)
+    .addParam("to", "target of the action", undefined, types.string)
+    .addParam("value", "value of the action in wei", "0", types.string, true)
+    .addParam("data", "calldata of the action", "0x", types.string, true)
+    .addParam("nonce", "nonce of the transaction", 0, types.int, true)
+    .addParam("metadataHash", "metadata hash of the transaction", ZeroHash, types.string, true)
+    .addParam("rootAccess", "simulate executeRootAccess instead of executeTransaction", false, types.boolean, true)
+    .addParam("manager", "address of the manager, defaults to the deployed SafeProtocolManager", undefined, types.string, true)
+    .addParam("stateOverrides", 'state overrides by address, e.g. {"0x...":{"balance":"1000"}}', undefined, types.json, true)
+    .setAction(async (taskArgs, hre): Promise<SimulationResult> => {
+        const manager = taskArgs.manager ?? (await hre.deployments.get("SafeProtocolManager")).address;
+        const action: SafeProtocolAction = { to: taskArgs.to, value: BigInt(taskArgs.value), data: taskArgs.data };
+        const options = { stateOverrides: taskArgs.stateOverrides };
+
+        const result = taskArgs.rootAccess
+            ? await simulateRootAccess(
+                  hre.ethers.provider,
+                  manager,
+                  taskArgs.plugin,
+                  taskArgs.account,
+                  { action, nonce: BigInt(taskArgs.nonce), metadataHash: taskArgs.metadataHash },
+                  options,
+              )
+            : await simulateTransaction(
+                  hre.ethers.provider,
+                  manager,
+                  taskArgs.plugin,
+                  taskArgs.account,
+                  { actions: [action], nonce: BigInt(taskArgs.nonce), metadataHash: taskArgs.metadataHash },
+                  options,
+              );
+        console.log(stringifyResult(result));
+        return result;
+    });
@@ -0,0 +1,105 @@
+import "hardhat-deploy";
+import fs from "fs";
+import path from "path";
+import { task, types } from "hardhat/config";
+import { HardhatRuntimeEnvironment } from "hardhat/types";
+import { ImmutableReference, maskImmutables, stripMetadata } from "../utils/bytecode";
+
+export type BytecodeStatus = "match" | "mismatch" | "no-code" | "no-artifact";
+
+export interface BytecodeVerificationResult {
+    name: string;
+    address: string;
+    status: BytecodeStatus;
+    metadataMatches: boolean;
+}
+
+/**
+ * Returns the contract addresses recorded for the current chain, either from the exported deployments.ts
+ * file or from the hardhat-deploy deployments of the selected network.
+ */
+export const getRecordedAddresses = async (hre: HardhatRuntimeEnvironment, source: string): Promise<Record<string, string>> => {
+    const addresses: Record<string, string> = {};
+    if (source === "network") {
+        const deployments = await hre.deployments.all();
+        Object.keys(deployments).forEach((name) => (addresses[name] = deployments[name].address));
+        return addresses;
+    }
+    if (source !== "export") {
+        throw new Error(`Unknown source "${source}". Valid sources are: export, network`);
+    }
+
+    if (!fs.existsSync(path.join(__dirname, "../../deployments.ts"))) {
+        throw new Error("No deployments file found. Please run the deployment script first.");
+    }
+    const { default: deployments } = await import("../../deployments");
+    const { chainId } = await hre.ethers.provider.getNetwork();
+    const chainDeployments = (deployments as Record<string, readonly { contracts: Record<string, { address: string }> }[]>)[
+        chainId.toString()
+    ];
+    (chainDeployments ?? []).forEach((deployment) => {
+        Object.keys(deployment.contracts).forEach((name) => (addresses[name] = deployment.contracts[name].address));
+    });
+    return addresses;
+};
+
+const verifyContract = async (hre: HardhatRuntimeEnvironment, name: string, address: string): Promise<BytecodeVerificationResult> => {
+    if (!(await hre.artifacts.artifactExists(name))) {
+        return { name, address, status: "no-artifact", metadataMatches: false };
+    }
+    const artifact = await hre.artifacts.readArtifact(name);
+    const code = await hre.ethers.provider.getCode(address);
+    if (code === "0x") {
+        return { name, address, status: "no-code", metadataMatches: false };
+    }
+
+    // The deployedBytecode of an artifact contains zeros in place of immutables, so the same bytes are masked in the deployed code.
+    const buildInfo = await hre.artifacts.getBuildInfo(`${artifact.sourceName}:${artifact.contractName}`);
+    const immutableReferences =
+        buildInfo?.output.contracts[artifact.sourceName][artifact.contractName].evm.deployedBytecode.immutableReferences ?? {};
+    const references: ImmutableReference[] = Object.values(immutableReferences).flat();
+    const deployedCode = maskImmutables(code, references);
+    const expectedCode = artifact.deployedBytecode.toLowerCase();
+
+    const matches = stripMetadata(deployedCode) === stripMetadata(expectedCode);
+    return { name, address, status: matches ? "match" : "mismatch", metadataMatches: matches && deployedCode === expectedCode };
+};
+
+task("deployments:verify-bytecode", "Compares the code deployed at the recorded addresses with the local artifacts")
+    .addParam(
+        "source",
+        "source of the addresses: export (deployments.ts) or network (hardhat-deploy deployments)",
+        "export",
+        types.string,
+        true,
+    )
+    .addParam("contracts", "comma separated list of contract names to verify", undefined, types.string, true)
+    .addParam("skipcompile", "should not compile before verifying", false, types.boolean, true)
+    .setAction(async (taskArgs, hre): Promise<BytecodeVerificationResult[]> => {
+        if (!taskArgs.skipcompile) {
+            await hre.run("compile");
+        }
+
+        const addresses = await getRecordedAddresses(hre, taskArgs.source);
+        const names: string[] = taskArgs.contracts?.split(",").map((name: string) => name.trim()) ?? Object.keys(addresses);
+        if (names.length === 0) {
+            throw new Error(`No deployments found for network ${hre.network.name}`);
+        }
+
+        const results: BytecodeVerificationResult[] = [];
+        for (const name of names) {
+            if (addresses[name] === undefined) {
+                throw new Error(`No address recorded for ${name} on network ${hre.network.name}`);
+            }
+            const result = await verifyContract(hre, name, addresses[name]);
+            results.push(result);
+            const note = result.status === "match" && !result.metadataMatches ? " (metadata hash differs)" : "";
+            console.log(`${result.name.padEnd(40)} ${result.address} ${result.status}${note}`);
+        }
+
+        const drifted = results.filter((result) => result.status !== "match");
+        if (drifted.length > 0) {
+            throw new Error(`Bytecode drift detected for: ${drifted.map((result) => result.name).join(", ")}`);
+        }
+        return results;
+    });
@@ -0,0 +1,169 @@
+import "hardhat-deploy";
+import path from "path";
+import { TASK_COMPILE_SOLIDITY_GET_SOLC_BUILD } from "hardhat/builtin-tasks/task-names";
+import { task, types } from "hardhat/config";
+import { BuildInfo, HardhatRuntimeEnvironment, SolcBuild } from "hardhat/types";
+import { ImmutableReference, maskImmutables, stripMetadata } from "../utils/bytecode";
+import { loadSolc } from "../utils/solc";
+import { getRecordedAddresses } from "./verify_bytecode";
+
+// Compiler version the production contracts are released with.
+const PINNED_SOLC_VERSION = "0.8.18";
+
+const PRODUCTION_CONTRACTS = ["SafeProtocolManager", "SafeProtocolRegistry", "SignatureValidatorManager"];
+
+export type ArtifactStatus = "match" | "mismatch";
+
+export type DeploymentStatus = "match" | "metadata-mismatch" | "mismatch" | "no-code" | "not-deployed";
+
+export interface ReproducibleBuildResult {
+    name: string;
+    compilerVersion: string;
+    artifact: ArtifactStatus;
+    deployment: DeploymentStatus;
+    address?: string;
+}
+
+interface CompiledContract {
+    bytecode: string;
+    deployedBytecode: string;
+    immutableReferences: ImmutableReference[];
+}
+
+/**
+ * Returns the directory of the solcjs build that Hardhat compiles with, which is already downloaded after `compile`.
+ * Hardhat has no public API for its compiler cache, so the directory is undefined if Hardhat uses a native build.
+ */
+const getHardhatCompilersDir = async (hre: HardhatRuntimeEnvironment, solcVersion: string): Promise<string | undefined> => {
+    const { compilerPath, isSolcJs }: SolcBuild = await hre.run(TASK_COMPILE_SOLIDITY_GET_SOLC_BUILD, { quiet: true, solcVersion });
+    return isSolcJs ? path.dirname(compilerPath) : undefined;
+};
+
+/**
+ * Recompiles the standard-JSON input of a build info with solcjs and returns the bytecode of the requested contracts.
+ * Only the bytecode is selected as output, which does not influence the generated code.
+ */
+const compileBuildInfo = async (
+    hre: HardhatRuntimeEnvironment,
+    buildInfo: BuildInfo,
+    contracts: { sourceName: string; contractName: string }[],
+) => {
+    const solc = await loadSolc(buildInfo.solcLongVersion, { compilersDir: await getHardhatCompilersDir(hre, buildInfo.solcVersion) });
+
+    const outputSelection: Record<string, Record<string, string[]>> = {};
+    contracts.forEach(({ sourceName, contractName }) => {
+        outputSelection[sourceName] = outputSelection[sourceName] ?? {};
+        outputSelection[sourceName][contractName] = [
+            "evm.bytecode.object",
+            "evm.deployedBytecode.object",
+            "evm.deployedBytecode.immutableReferences",
+        ];
+    });
+    const input = { ...buildInfo.input, settings: { ...buildInfo.input.settings, outputSelection } };
+
+    const output = JSON.parse(solc.compile(JSON.stringify(input)));
+    const errors = (output.errors ?? []).filter((error: { severity: string }) => error.severity === "error");
+    if (errors.length > 0) {
+        throw new Error(`Compilation failed: ${errors.map((error: { formattedMessage: string }) => error.formattedMessage).join("\n")}`);
+    }
+
+    const compiled: Record<string, CompiledContract> = {};
+    contracts.forEach(({ sourceName, contractName }) => {
+        const evm = output.contracts[sourceName][contractName].evm;
+        compiled[`${sourceName}:${contractName}`] = {
+            bytecode: `0x${evm.bytecode.object}`,
+            deployedBytecode: `0x${evm.deployedBytecode.object}`,
+            immutableReferences: Object.values<ImmutableReference[]>(evm.deployedBytecode.immutableReferences ?? {}).flat(),
+        };
+    });
+    return compiled;
+};
+
+const compareDeployment = async (
+    hre: HardhatRuntimeEnvironment,
+    compiled: CompiledContract,
+    address?: string,
+): Promise<DeploymentStatus> => {
+    if (address === undefined) return "not-deployed";
+
+    const code = await hre.ethers.provider.getCode(address);
+    if (code === "0x") return "no-code";
+
+    const deployedCode = maskImmutables(code, compiled.immutableReferences);
+    const expectedCode = compiled.deployedBytecode.toLowerCase();
+    if (deployedCode === expectedCode) return "match";
+    return stripMetadata(deployedCode) === stripMetadata(expectedCode) ? "metadata-mismatch" : "mismatch";
+};
+
+task("verify:reproducible", "Recompiles the production contracts with solcjs and compares them with the artifacts and deployments")
+    .addParam(
+        "source",
+        "source of the addresses: export (deployments.ts) or network (hardhat-deploy deployments)",
+        "export",
+        types.string,
+        true,
+    )
+    .addParam("contracts", "comma separated list of contract names to verify", PRODUCTION_CONTRACTS.join(","), types.string, true)
+    .addParam("skipcompile", "should not compile before verifying", false, types.boolean, true)
+    .setAction(async (taskArgs, hre): Promise<ReproducibleBuildResult[]> => {
+        if (!taskArgs.skipcompile) {
+            await hre.run("compile");
+        }
+
+        const names: string[] = taskArgs.contracts.split(",").map((name: string) => name.trim());
+        const addresses = await getRecordedAddresses(hre, taskArgs.source);
+
+        // Contracts compiled together share a build info, so every build info is only recompiled once.
+        const buildInfos: Record<string, { buildInfo: BuildInfo; contracts: { sourceName: string; contractName: string }[] }> = {};
+        for (const name of names) {
+            const artifact = await hre.artifacts.readArtifact(name);
+            const fullyQualifiedName = `${artifact.sourceName}:${artifact.contractName}`;
+            const buildInfo = await hre.artifacts.getBuildInfo(fullyQualifiedName);
+            if (buildInfo === undefined) {
+                throw new Error(`No build info found for ${fullyQualifiedName}`);
+            }
+            if (buildInfo.solcVersion !== PINNED_SOLC_VERSION) {
+                throw new Error(`${name} was compiled with solc ${buildInfo.solcVersion} instead of ${PINNED_SOLC_VERSION}`);
+            }
+            buildInfos[buildInfo.id] = buildInfos[buildInfo.id] ?? { buildInfo, contracts: [] };
+            buildInfos[buildInfo.id].contracts.push({ sourceName: artifact.sourceName, contractName: artifact.contractName });
+        }
+
+        const compiled: Record<string, CompiledContract & { compilerVersion: string }> = {};
+        for (const { buildInfo, contracts } of Object.values(buildInfos)) {
+            const buildOutput = await compileBuildInfo(hre, buildInfo, contracts);
+            Object.keys(buildOutput).forEach(
+                (name) => (compiled[name] = { ...buildOutput[name], compilerVersion: buildInfo.solcLongVersion }),
+            );
+        }
+
+        const results: ReproducibleBuildResult[] = [];
+        for (const name of names) {
+            const artifact = await hre.artifacts.readArtifact(name);
+            const contract = compiled[`${artifact.sourceName}:${artifact.contractName}`];
+            const artifactMatches =
+                contract.bytecode.toLowerCase() === artifact.bytecode.toLowerCase() &&
+                contract.deployedBytecode.toLowerCase() === artifact.deployedBytecode.toLowerCase();
+
+            const result: ReproducibleBuildResult = {
+                name,
+                compilerVersion: contract.compilerVersion,
+                artifact: artifactMatches ? "match" : "mismatch",
+                deployment: await compareDeployment(hre, contract, addresses[name]),
+                address: addresses[name],
+            };
+            results.push(result);
+
+            const verdict = result.artifact === "match" && result.deployment === "match" ? "reproducible" : "not reproduced";
+            console.log(
+                `${result.name.padEnd(40)} ${verdict.padEnd(15)} artifact: ${result.artifact}, deployment: ${result.deployment}` +
+                    (result.address ? ` (${result.address})` : ""),
+            );
+        }
+
+        const failed = results.filter((result) => result.artifact !== "match" || !["match", "not-deployed"].includes(result.deployment));
+        if (failed.length > 0) {
+            throw new Error(`Build could not be reproduced for: ${failed.map((result) => result.name).join(", ")}`);
+        }
+        return results;
+    });
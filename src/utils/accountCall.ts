@@ -0,0 +1,67 @@
+import { BaseContract, concat, dataLength, dataSlice, getAddress, Interface, TransactionDescription } from "ethers";
+import type { StateMutability, TypedContractMethod } from "../../typechain-types/common";
+
+// Length of the sender address appended to the calldata, see OnlyAccountCallable.sol.
+const SENDER_LENGTH = 20;
+
+type MethodArgs<T> = T extends TypedContractMethod<infer A, any, StateMutability> ? A : never;
+
+/** Names of the contract methods of a TypeChain contract. */
+export type AccountCallMethod<C extends BaseContract> = {
+    [K in keyof C]: [MethodArgs<C[K]>] extends [never] ? never : K;
+}[keyof C] &
+    string;
+
+/** Arguments of a contract method of a TypeChain contract. */
+export type AccountCallArgs<C extends BaseContract, M extends AccountCallMethod<C>> = MethodArgs<C[M]>;
+
+/** Transaction that has to be executed by the account, e.g. proposed as a Safe transaction. */
+export interface AccountTransaction {
+    to: string;
+    value: string;
+    data: string;
+    operation: number;
+}
+
+export interface DecodedAccountCall {
+    /** Calldata of the call without the sender suffix. */
+    data: string;
+    /** Sender address taken from the last 20 bytes of the calldata. */
+    sender: string;
+    /** Decoded call, only set if an interface was provided and it contains the function. */
+    call?: TransactionDescription;
+}
+
+/**
+ * Encodes a call to a function protected by `onlyAccount`, e.g. `enablePlugin`, `setHooks`, `setFunctionHandler`
+ * or `setRegistry`. The account address is appended to the calldata, as `OnlyAccountCallable.checkOnlyAccount`
+ * compares the last 20 bytes of the calldata with the sender of the call.
+ * @param contract TypeChain contract instance, only its interface is used
+ * @param method Name of the function to call
+ * @param args Arguments of the function
+ * @param account Address of the account that sends the call
+ */
+export const encodeAccountCall = <C extends BaseContract, M extends AccountCallMethod<C>>(
+    contract: C,
+    method: M,
+    args: AccountCallArgs<C, M>,
+    account: string,
+): string => {
+    const data = contract.interface.encodeFunctionData(method, args);
+    return concat([data, getAddress(account)]);
+};
+
+/**
+ * Splits calldata created by `encodeAccountCall` into the call and the sender. If an interface is provided the call is decoded as well.
+ * Throws if the calldata is too short to contain a sender, which would revert with `InvalidCalldataLength`.
+ */
+export const decodeAccountCall = (calldata: string, contractInterface?: Interface): DecodedAccountCall => {
+    const length = dataLength(calldata);
+    if (length < SENDER_LENGTH) {
+        throw new Error(`Calldata of ${length} bytes is too short to contain a sender address`);
+    }
+    const data = dataSlice(calldata, 0, length - SENDER_LENGTH);
+    const sender = getAddress(dataSlice(calldata, length - SENDER_LENGTH));
+    const call = contractInterface?.parseTransaction({ data }) ?? undefined;
+    return { data, sender, call };
+};
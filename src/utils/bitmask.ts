@@ -0,0 +1,109 @@
+import {
+    MODULE_TYPE_FUNCTION_HANDLER,
+    MODULE_TYPE_HOOKS,
+    MODULE_TYPE_PLUGIN,
+    MODULE_TYPE_SIGNATURE_VALIDATOR,
+    MODULE_TYPE_SIGNATURE_VALIDATOR_HOOKS,
+    PLUGIN_PERMISSION_CALL_TO_SELF,
+    PLUGIN_PERMISSION_EXECUTE_DELEGATECALL,
+    PLUGIN_PERMISSION_EXECUTE_CALL,
+} from "./constants";
+
+export type ModuleType = "plugin" | "function-handler" | "hooks" | "signature-validator-hooks" | "signature-validator";
+export type PluginPermission = "execute-call" | "call-to-self" | "delegate-call";
+
+export const MODULE_TYPES: Readonly<Record<ModuleType, number>> = {
+    plugin: MODULE_TYPE_PLUGIN,
+    "function-handler": MODULE_TYPE_FUNCTION_HANDLER,
+    hooks: MODULE_TYPE_HOOKS,
+    "signature-validator-hooks": MODULE_TYPE_SIGNATURE_VALIDATOR_HOOKS,
+    "signature-validator": MODULE_TYPE_SIGNATURE_VALIDATOR,
+};
+
+export const PLUGIN_PERMISSIONS: Readonly<Record<PluginPermission, number>> = {
+    "execute-call": PLUGIN_PERMISSION_EXECUTE_CALL,
+    "call-to-self": PLUGIN_PERMISSION_CALL_TO_SELF,
+    "delegate-call": PLUGIN_PERMISSION_EXECUTE_DELEGATECALL,
+};
+
+// Maximum value accepted by SafeProtocolRegistry.addModule(...). Larger values revert with InvalidModuleType.
+export const MAX_MODULE_TYPES = Object.values(MODULE_TYPES).reduce((mask, moduleType) => mask | moduleType, 0);
+export const MAX_PLUGIN_PERMISSIONS = Object.values(PLUGIN_PERMISSIONS).reduce((mask, permission) => mask | permission, 0);
+
+const encode = <T extends string>(kind: string, bits: Readonly<Record<T, number>>, names: readonly string[]): number => {
+    return names.reduce((mask, name) => {
+        const bit = bits[name as T];
+        if (bit === undefined) {
+            throw new Error(`Unknown ${kind} "${name}". Valid values are: ${Object.keys(bits).join(", ")}`);
+        }
+        return mask | bit;
+    }, 0);
+};
+
+const decode = <T extends string>(kind: string, bits: Readonly<Record<T, number>>, max: number, value: number | bigint): T[] => {
+    const mask = Number(value);
+    if (!Number.isInteger(mask) || mask < 0 || mask > max) {
+        throw new Error(`Invalid ${kind} ${value}. Value must be an integer between 0 and ${max}`);
+    }
+    return (Object.keys(bits) as T[]).filter((name) => (mask & bits[name]) !== 0);
+};
+
+/**
+ * Encodes module type names into the uint8 bitmask used by the registry, e.g. ["plugin", "hooks"] => 5.
+ */
+export const encodeModuleTypes = (moduleTypes: readonly string[]): number => encode("module type", MODULE_TYPES, moduleTypes);
+
+/**
+ * Decodes a module types bitmask into module type names. Throws for values the registry rejects with InvalidModuleType.
+ */
+export const decodeModuleTypes = (moduleTypes: number | bigint): ModuleType[] =>
+    decode("module types", MODULE_TYPES, MAX_MODULE_TYPES, moduleTypes);
+
+/**
+ * Encodes plugin permission names into the uint8 bitmask used by the manager, e.g. ["execute-call", "call-to-self"] => 3.
+ */
+export const encodePermissions = (permissions: readonly string[]): number => encode("plugin permission", PLUGIN_PERMISSIONS, permissions);
+
+/**
+ * Decodes a plugin permissions bitmask into permission names. Throws for values containing undefined permission bits.
+ */
+export const decodePermissions = (permissions: number | bigint): PluginPermission[] =>
+    decode("plugin permissions", PLUGIN_PERMISSIONS, MAX_PLUGIN_PERMISSIONS, permissions);
+
+/**
+ * Parses a comma separated list of module type names as accepted by the hardhat tasks, e.g. "plugin,hooks".
+ */
+export const parseModuleTypes = (value: string): number =>
+    encodeModuleTypes(
+        value
+            .split(",")
+            .map((name) => name.trim())
+            .filter((name) => name.length > 0),
+    );
+
+/**
+ * Parses a comma separated list of plugin permission names as accepted by the hardhat tasks, e.g. "execute-call,call-to-self".
+ */
+export const parsePermissions = (value: string): number =>
+    encodePermissions(
+        value
+            .split(",")
+            .map((name) => name.trim())
+            .filter((name) => name.length > 0),
+    );
+
+/**
+ * Formats a module types bitmask for logs, e.g. 5 => "plugin | hooks (5)".
+ */
+export const formatModuleTypes = (moduleTypes: number | bigint): string => {
+    const names = decodeModuleTypes(moduleTypes);
+    return `${names.length > 0 ? names.join(" | ") : "none"} (${moduleTypes})`;
+};
+
+/**
+ * Formats a plugin permissions bitmask for logs, e.g. 3 => "execute-call | call-to-self (3)".
+ */
+export const formatPermissions = (permissions: number | bigint): string => {
+    const names = decodePermissions(permissions);
+    return `${names.length > 0 ? names.join(" | ") : "none"} (${permissions})`;
+};
@@ -0,0 +1,35 @@
+export interface ImmutableReference {
+    start: number;
+    length: number;
+}
+
+/**
+ * Removes the CBOR encoded metadata that solc appends to the bytecode. The last two bytes of the bytecode
+ * contain the length of the metadata. Bytecode without a valid metadata section is returned unchanged.
+ */
+export const stripMetadata = (bytecode: string): string => {
+    const code = bytecode.toLowerCase().replace(/^0x/, "");
+    if (code.length < 4) return `0x${code}`;
+
+    const metadataLength = parseInt(code.slice(-4), 16);
+    const metadataStart = code.length - 4 - metadataLength * 2;
+    if (metadataStart < 0) return `0x${code}`;
+
+    // CBOR metadata written by solc is a map, i.e. the first byte is in the range 0xa1 - 0xbf.
+    const firstByte = parseInt(code.slice(metadataStart, metadataStart + 2), 16);
+    if (firstByte < 0xa1 || firstByte > 0xbf) return `0x${code}`;
+
+    return `0x${code.slice(0, metadataStart)}`;
+};
+
+/**
+ * Replaces the bytes at the given immutable references with zeros, which is how they appear in the
+ * deployedBytecode of a compiler artifact.
+ */
+export const maskImmutables = (bytecode: string, references: ImmutableReference[]): string => {
+    let code = bytecode.toLowerCase().replace(/^0x/, "");
+    for (const { start, length } of references) {
+        code = code.slice(0, start * 2) + "00".repeat(length) + code.slice((start + length) * 2);
+    }
+    return `0x${code}`;
+};
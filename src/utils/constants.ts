@@ -1,7 +1,10 @@
+// This file is generated from the Solidity constants by `yarn hardhat generate:constants`. Do not edit it manually.
+
+// Plugin permissions
 export const PLUGIN_PERMISSION_NONE: number = 0;
 export const PLUGIN_PERMISSION_EXECUTE_CALL: number = 1;
 export const PLUGIN_PERMISSION_CALL_TO_SELF: number = 2;
-export const PLUGIN_PERMISSION_DELEGATE_CALL: number = 4;
+export const PLUGIN_PERMISSION_EXECUTE_DELEGATECALL: number = 4;
 
 // Module types
 export const MODULE_TYPE_PLUGIN: number = 1;
@@ -10,6 +13,16 @@ export const MODULE_TYPE_HOOKS: number = 4;
 export const MODULE_TYPE_SIGNATURE_VALIDATOR_HOOKS: number = 8;
 export const MODULE_TYPE_SIGNATURE_VALIDATOR: number = 16;
 
-// solidity: bytes4(keccak256("Account712Signature(bytes32,bytes32,bytes)"));
-// javascript: hre.ethers.keccak256(toUtf8Bytes("Account712Signature(bytes32,bytes32,bytes)")).slice(0, 10);
-export const SIGNATURE_VALIDATOR_SELECTOR =  "0xb5c726cb";
+// Reasons for unflagging and delisting modules in the registry
+export const REGISTRY_REASON_UNSPECIFIED: number = 0;
+export const REGISTRY_REASON_FLAGGED_BY_MISTAKE: number = 1;
+export const REGISTRY_REASON_ISSUE_RESOLVED: number = 2;
+export const REGISTRY_REASON_DEPRECATED: number = 3;
+
+// contracts/SignatureValidatorManager.sol
+// Signature selector bytes4(keccak256("Account712Signature(bytes32,bytes32,bytes)"));
+export const SIGNATURE_VALIDATOR_SELECTOR: string = "0xb5c726cb";
+
+// Deprecated aliases
+/** @deprecated Use PLUGIN_PERMISSION_EXECUTE_DELEGATECALL instead. */
+export const PLUGIN_PERMISSION_DELEGATE_CALL = PLUGIN_PERMISSION_EXECUTE_DELEGATECALL;
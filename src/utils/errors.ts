@@ -0,0 +1,361 @@
+import { AbiCoder, dataLength, dataSlice, ErrorFragment, Interface, InterfaceAbi, isHexString, JsonFragment } from "ethers";
+import { factories } from "../../typechain-types";
+import { formatModuleTypes, formatPermissions } from "./bitmask";
+
+const ERROR_SELECTOR = "0x08c379a0";
+const PANIC_SELECTOR = "0x4e487b71";
+
+/** Arguments of the custom errors of the protocol contracts by error name. */
+export interface ProtocolErrorArgs {
+    ActionExecutionFailed: { account: string; metadataHash: string; index: bigint };
+    AttesterChangeAlreadyScheduled: { executableAt: bigint };
+    AttesterChangeNotExecutable: { executableAt: bigint };
+    CannotDelistModule: { module: string };
+    CannotFlagModule: { module: string };
+    CannotSetModuleMetadata: { module: string };
+    CannotUnflagModule: { module: string };
+    CannotUpdateModuleTypes: { module: string };
+    ContractDoesNotImplementValidInterfaceId: { account: string };
+    FunctionHandlerNotSet: { account: string; functionSelector: string };
+    InvalidAttester: { attester: string };
+    InvalidCalldataLength: Record<string, never>;
+    InvalidMessageHash: { messageHash: string };
+    InvalidModuleAddress: { module: string };
+    InvalidModuleType: { module: string; givenModuleType: bigint };
+    InvalidPluginAddress: { plugin: string };
+    InvalidPrevPluginAddress: { plugin: string };
+    InvalidSender: { sender: string };
+    InvalidThreshold: { threshold: bigint; attesterCount: bigint };
+    InvalidToFieldInSafeProtocolAction: { account: string; metadataHash: string; index: bigint };
+    MissingPluginPermission: { plugin: string; pluginRequires: bigint; requiredPermission: bigint; givenPermission: bigint };
+    ModuleAlreadyAttested: { module: string; moduleType: bigint; attester: string };
+    ModuleAlreadyFlagged: { module: string };
+    ModuleAlreadyListed: { module: string };
+    ModuleDoesNotSupportExpectedInterfaceId: { module: string; expectedInterfaceId: string };
+    ModuleNotPermitted: { plugin: string; listedAt: bigint; flaggedAt: bigint; moduleType: bigint };
+    NoAttesterChangeScheduled: Record<string, never>;
+    NotAnAttester: { attester: string };
+    PluginAlreadyEnabled: { account: string; plugin: string };
+    PluginNotEnabled: { plugin: string };
+    PluginPermissionsMismatch: { plugin: string; requiredPermissions: bigint; givenPermissions: bigint };
+    RootAccessActionExecutionFailed: { account: string; metadataHash: string };
+    SignatureValidatorNotSet: { account: string };
+    TooManyAttesters: Record<string, never>;
+    ZeroPageSizeNotAllowed: Record<string, never>;
+    /** Revert string, e.g. of `require` in hooks. */
+    Error: { reason: string };
+    Panic: { code: bigint };
+}
+
+export type ProtocolErrorName = keyof ProtocolErrorArgs;
+
+interface DecodedErrorBase {
+    /** Error signature, e.g. `PluginNotEnabled(address)`. */
+    signature: string;
+    /** Human readable description of the error. */
+    explanation: string;
+    /** Suggested fix, if one is known. */
+    fix?: string;
+    /** Error decoded from revert data nested in the error, e.g. in a revert string. */
+    cause?: DecodedError;
+    /** Raw revert data. */
+    data: string;
+}
+
+export type KnownDecodedError = {
+    [N in ProtocolErrorName]: DecodedErrorBase & { name: N; args: ProtocolErrorArgs[N] };
+}[ProtocolErrorName];
+
+/** Error of another contract that is contained in the ABIs, or revert data that could not be decoded (`Unknown`). */
+export type OtherDecodedError = DecodedErrorBase & { name: string; args: Record<string, unknown> };
+
+export type DecodedError = KnownDecodedError | OtherDecodedError;
+
+type Explanation<N extends ProtocolErrorName> = (args: ProtocolErrorArgs[N]) => { explanation: string; fix?: string };
+
+const PANIC_REASONS: Record<number, string> = {
+    0x01: "an assertion failed",
+    0x11: "an arithmetic operation overflowed or underflowed",
+    0x12: "a division or modulo by zero",
+    0x21: "an invalid enum value was converted",
+    0x31: "pop was called on an empty array",
+    0x32: "an array was accessed out of bounds",
+    0x41: "too much memory was allocated",
+    0x51: "an uninitialized function was called",
+};
+
+const EXPLANATIONS: { [N in ProtocolErrorName]: Explanation<N> } = {
+    ActionExecutionFailed: ({ account, index }) => ({
+        explanation: `Action ${index} of the transaction failed when account ${account} executed it.`,
+        fix: "Simulate the action as a call from the account to find the cause, e.g. with `yarn hardhat tx:simulate`.",
+    }),
+    AttesterChangeAlreadyScheduled: ({ executableAt }) => ({
+        explanation: `A change of the attesters is already scheduled, it can be executed at timestamp ${executableAt}.`,
+        fix: "Execute the scheduled change with `executeAttesterChange` or cancel it with `cancelAttesterChange`.",
+    }),
+    AttesterChangeNotExecutable: ({ executableAt }) => ({
+        explanation: `The scheduled change of the attesters cannot be executed before timestamp ${executableAt}.`,
+        fix: "Wait until the delay has passed.",
+    }),
+    CannotDelistModule: ({ module }) => ({
+        explanation: `Module ${module} cannot be delisted because it is not listed.`,
+        fix: "Check the module address with `yarn hardhat registry:info`.",
+    }),
+    CannotFlagModule: ({ module }) => ({
+        explanation: `Module ${module} cannot be flagged because it is not listed or already flagged.`,
+        fix: "Check the module address with `registry.check`.",
+    }),
+    CannotSetModuleMetadata: ({ module }) => ({
+        explanation: `The metadata of module ${module} cannot be set because it is not listed.`,
+        fix: "Add the module with `addModule` first.",
+    }),
+    CannotUnflagModule: ({ module }) => ({
+        explanation: `Module ${module} cannot be unflagged because it is not flagged.`,
+        fix: "Check the module address with `yarn hardhat registry:info`.",
+    }),
+    CannotUpdateModuleTypes: ({ module }) => ({
+        explanation: `The module types of ${module} cannot be updated because it is not listed or flagged.`,
+        fix: "Add the module with `addModule` instead, or delist a flagged module and add it again.",
+    }),
+    ContractDoesNotImplementValidInterfaceId: ({ account }) => ({
+        explanation: `Contract ${account} does not implement the expected ERC-165 interface.`,
+        fix: "Use a registry that implements ISafeProtocolRegistry.",
+    }),
+    FunctionHandlerNotSet: ({ account, functionSelector }) => ({
+        explanation: `Account ${account} has no function handler for the selector ${functionSelector}.`,
+        fix: "Set a function handler for the selector with `setFunctionHandler`.",
+    }),
+    InvalidAttester: ({ attester }) => ({
+        explanation: `${attester} cannot be added as an attester, it is the zero address, already an attester or added twice.`,
+    }),
+    InvalidCalldataLength: () => ({
+        explanation: "The calldata is too short to contain the account address that the account appends to the call.",
+        fix: "Call the function through the account, or append the account address with `encodeAccountCall`.",
+    }),
+    InvalidMessageHash: ({ messageHash }) => ({
+        explanation: `The message hash ${messageHash} does not match the EIP-712 hash of the domain separator and struct hash.`,
+        fix: "Pass the domain separator and struct hash that were used to compute the message hash.",
+    }),
+    InvalidModuleAddress: ({ module }) => ({
+        explanation: `${module} is not listed with the module type and cannot be used as the start of a page.`,
+        fix: "Start paging at the sentinel 0x1, e.g. with `getAllModules`.",
+    }),
+    InvalidModuleType: ({ module, givenModuleType }) => ({
+        explanation: `Module type ${givenModuleType} of module ${module} is not a combination of the known module types.`,
+        fix: "Encode the module types with `encodeModuleTypes`.",
+    }),
+    InvalidPluginAddress: ({ plugin }) => ({
+        explanation: `${plugin} is not a valid plugin address, the zero address and the sentinel are reserved.`,
+    }),
+    InvalidPrevPluginAddress: ({ plugin }) => ({
+        explanation: `${plugin} is not the previous plugin of the plugin to disable.`,
+        fix: "Resolve the previous plugin with `findPrevPlugin`.",
+    }),
+    InvalidSender: ({ sender }) => ({
+        explanation: `The function has to be called by the account, but the call was sent by ${sender}.`,
+        fix: "Execute the call as a transaction of the account and encode it with `encodeAccountCall`.",
+    }),
+    InvalidThreshold: ({ threshold, attesterCount }) => ({
+        explanation: `Threshold ${threshold} is invalid for ${attesterCount} attesters.`,
+        fix: "Use a threshold of at least 1 and at most the number of attesters.",
+    }),
+    InvalidToFieldInSafeProtocolAction: ({ index }) => ({
+        explanation: `Action ${index} calls the manager, which plugins are not allowed to do.`,
+        fix: "Remove the action. `SafeTransactionBuilder` rejects such actions before they are sent.",
+    }),
+    MissingPluginPermission: ({ plugin, pluginRequires, requiredPermission, givenPermission }) => ({
+        explanation:
+            `Plugin ${plugin} needs the permission ${formatPermissions(requiredPermission)}, but it requires ` +
+            `${formatPermissions(pluginRequires)} and was granted ${formatPermissions(givenPermission)}.`,
+        fix: "Enable the plugin again with the permissions it requires, e.g. with `yarn hardhat plugin:enable`.",
+    }),
+    ModuleAlreadyAttested: ({ module, moduleType, attester }) => ({
+        explanation: `Attester ${attester} already attested to module ${module} as ${formatModuleTypes(moduleType)}.`,
+    }),
+    ModuleAlreadyFlagged: ({ module }) => ({
+        explanation: `Module ${module} is flagged in the registry and cannot be attested to or flagged again.`,
+    }),
+    ModuleAlreadyListed: ({ module }) => ({
+        explanation: `Module ${module} is already listed in the registry.`,
+    }),
+    ModuleDoesNotSupportExpectedInterfaceId: ({ module, expectedInterfaceId }) => ({
+        explanation: `Module ${module} does not support the interface ${expectedInterfaceId} of its module type.`,
+        fix: "Implement `supportsInterface` for the interface of every module type the module is listed with.",
+    }),
+    ModuleNotPermitted: ({ plugin, listedAt, flaggedAt, moduleType }) => {
+        const type = formatModuleTypes(moduleType);
+        if (flaggedAt !== 0n) {
+            return {
+                explanation: `Module ${plugin} was flagged in the registry at timestamp ${flaggedAt}.`,
+                fix: "Remove the module from the account, e.g. with the calldata of `yarn hardhat report:flagged-modules`.",
+            };
+        }
+        if (listedAt === 0n) {
+            return {
+                explanation: `Module ${plugin} is not listed in the registry.`,
+                fix: `List the module with the module type ${type} in the registry of the manager.`,
+            };
+        }
+        return {
+            explanation: `Module ${plugin} is not listed with the module type ${type}.`,
+            fix: `List the module with the module type ${type} in the registry of the manager.`,
+        };
+    },
+    NoAttesterChangeScheduled: () => ({
+        explanation: "No change of the attesters is scheduled.",
+        fix: "Schedule a change with `scheduleAttesterChange`.",
+    }),
+    NotAnAttester: ({ attester }) => ({
+        explanation: `${attester} is not an attester of the registry, or it is removed twice in a change of the attesters.`,
+        fix: "Send the transaction from an attester, the attesters are returned by `getAttesters`.",
+    }),
+    PluginAlreadyEnabled: ({ account, plugin }) => ({
+        explanation: `Plugin ${plugin} is already enabled for account ${account}.`,
+    }),
+    PluginNotEnabled: ({ plugin }) => ({
+        explanation: `Plugin ${plugin} is not enabled for the account.`,
+        fix: "Enable the plugin with `enablePlugin` before executing transactions with it.",
+    }),
+    PluginPermissionsMismatch: ({ plugin, requiredPermissions, givenPermissions }) => ({
+        explanation:
+            `Plugin ${plugin} requires the permissions ${formatPermissions(requiredPermissions)}, ` +
+            `but ${formatPermissions(givenPermissions)} were granted.`,
+        fix: "Grant exactly the permissions returned by `requiresPermissions()`.",
+    }),
+    RootAccessActionExecutionFailed: ({ account }) => ({
+        explanation: `The root access action failed when account ${account} executed it with a delegate call.`,
+    }),
+    SignatureValidatorNotSet: ({ account }) => ({
+        explanation: `Account ${account} has no signature validator for the domain of the signed message.`,
+        fix: "Set a signature validator for the domain separator with `setSignatureValidator`.",
+    }),
+    TooManyAttesters: () => ({
+        explanation: "The registry cannot add more attesters, as every attester that was ever added uses one of 256 slots.",
+        fix: "Deploy a new registry with the current attesters.",
+    }),
+    ZeroPageSizeNotAllowed: () => ({
+        explanation: "The page size of a paginated call must not be zero.",
+    }),
+    Error: ({ reason }) => ({
+        explanation: `Reverted with the reason "${reason}".`,
+    }),
+    Panic: ({ code }) => ({
+        explanation: `Panicked because ${PANIC_REASONS[Number(code)] ?? `of the panic code ${code}`}.`,
+    }),
+};
+
+// TypeChain factories expose the ABI of their contract as a static property.
+const collectAbis = (namespace: object): InterfaceAbi[] => {
+    return Object.values(namespace).flatMap((value) => {
+        if (typeof value === "function" && "abi" in value) {
+            return [value.abi as InterfaceAbi];
+        }
+        return typeof value === "object" && value !== null ? collectAbis(value) : [];
+    });
+};
+
+/** Interface with the custom errors of all compiled contracts. */
+export const PROTOCOL_ERRORS_INTERFACE = new Interface(
+    collectAbis(factories)
+        .flatMap((abi) => (typeof abi === "string" ? (JSON.parse(abi) as JsonFragment[]) : [...abi]))
+        .filter((fragment) => (typeof fragment === "string" ? fragment.startsWith("error ") : fragment.type === "error"))
+        .map((fragment) => ErrorFragment.from(fragment).format("full"))
+        .filter((fragment, index, fragments) => fragments.indexOf(fragment) === index),
+);
+
+const isKnownError = (name: string): name is ProtocolErrorName => Object.prototype.hasOwnProperty.call(EXPLANATIONS, name);
+
+const decodeNested = (value: unknown): DecodedError | undefined => {
+    if (typeof value !== "string" || !isHexString(value) || dataLength(value) < 4) {
+        return undefined;
+    }
+    // Revert strings that only look like revert data are not decoded.
+    const nested = decodeError(value);
+    return nested.name !== "Unknown" ? nested : undefined;
+};
+
+const buildDecodedError = (name: string, signature: string, args: Record<string, unknown>, data: string): DecodedError => {
+    const { explanation, fix } = isKnownError(name)
+        ? (EXPLANATIONS[name] as Explanation<ProtocolErrorName>)(args as never)
+        : { explanation: `Reverted with ${signature}.`, fix: undefined };
+    // Revert strings and bytes arguments may contain the revert data of a nested call, e.g. of a MockContract.
+    const cause = Object.values(args)
+        .map(decodeNested)
+        .find((nested) => nested !== undefined);
+    return {
+        name,
+        signature,
+        args,
+        explanation,
+        ...(fix !== undefined && { fix }),
+        ...(cause !== undefined && { cause }),
+        data,
+    } as DecodedError;
+};
+
+/**
+ * Decodes revert data into the custom errors of the protocol contracts, revert strings and panics, with a
+ * human readable explanation and a suggested fix. Revert data nested in revert strings or `bytes` arguments is
+ * decoded into `cause`.
+ */
+export const decodeError = (data: string): DecodedError => {
+    if (!isHexString(data) || dataLength(data) < 4) {
+        return buildDecodedError("Unknown", "unknown", {}, data);
+    }
+    const selector = dataSlice(data, 0, 4);
+    // Revert data with a known selector but malformed arguments is returned as Unknown instead of throwing.
+    try {
+        if (selector === ERROR_SELECTOR) {
+            const [reason] = AbiCoder.defaultAbiCoder().decode(["string"], dataSlice(data, 4));
+            return buildDecodedError("Error", "Error(string)", { reason }, data);
+        }
+        if (selector === PANIC_SELECTOR) {
+            const [code] = AbiCoder.defaultAbiCoder().decode(["uint256"], dataSlice(data, 4));
+            return buildDecodedError("Panic", "Panic(uint256)", { code }, data);
+        }
+        const error = PROTOCOL_ERRORS_INTERFACE.parseError(data);
+        if (error !== null) {
+            const args = Object.fromEntries(error.fragment.inputs.map((input, index) => [input.name, error.args[index]]));
+            return buildDecodedError(error.name, error.signature, args, data);
+        }
+    } catch {
+        // Fall through to Unknown.
+    }
+    return buildDecodedError("Unknown", `unknown error ${selector}`, {}, data);
+};
+
+/**
+ * Walks an error thrown by ethers or a JSON-RPC provider for a failed call and returns the first revert data found.
+ * The revert data is `0x` if the call reverted without a reason, and undefined if the error is not a revert.
+ */
+export const getRevertData = (error: unknown): string | undefined => {
+    let current = error;
+    while (typeof current === "object" && current !== null) {
+        const {
+            data,
+            error: inner,
+            info,
+            cause,
+        } = current as { data?: unknown; error?: unknown; info?: { error?: unknown }; cause?: unknown };
+        if (typeof data === "string" && isHexString(data)) {
+            return data;
+        }
+        // JSON-RPC errors, e.g. of a Hardhat node, nest the revert data as `{ message, data }`.
+        current = typeof data === "object" && data !== null ? data : inner ?? info?.error ?? cause;
+    }
+    return undefined;
+};
+
+/**
+ * Formats a decoded error and its causes as human readable text.
+ */
+export const formatDecodedError = (error: DecodedError): string => {
+    const lines = [`${error.signature}: ${error.explanation}`];
+    if (error.fix !== undefined) {
+        lines.push(`Fix: ${error.fix}`);
+    }
+    if (error.cause !== undefined) {
+        lines.push(`Caused by ${formatDecodedError(error.cause)}`);
+    }
+    return lines.join("\n");
+};
@@ -1,4 +1,9 @@
-export const ETHERSCAN_GOERLI_BASE_URL = "https://goerli.etherscan.io";
-export const NETWORK_ID_URL_MAPPING = {
-    5: ETHERSCAN_GOERLI_BASE_URL
-}
\ No newline at end of file
+import { getExplorer, getSupportedExplorerChainIds } from "./explorers";
+
+/** @deprecated Use `getExplorer(5).url` from `./explorers` instead. */
+export const ETHERSCAN_GOERLI_BASE_URL = getExplorer(5).url;
+
+/** @deprecated Use `getExplorer(chainId).url` from `./explorers` instead, it also knows explorers registered later. */
+export const NETWORK_ID_URL_MAPPING: Record<number, string> = Object.fromEntries(
+    getSupportedExplorerChainIds().map((chainId) => [chainId, getExplorer(chainId).url]),
+);
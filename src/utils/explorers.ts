@@ -0,0 +1,47 @@
+export interface BlockExplorer {
+    name: string;
+    url: string;
+}
+
+// Block explorers of the networks configured in hardhat.config.ts, keyed by chainId.
+const EXPLORERS: Record<number, BlockExplorer> = {
+    1: { name: "Etherscan", url: "https://etherscan.io" },
+    5: { name: "Etherscan Goerli", url: "https://goerli.etherscan.io" },
+    56: { name: "BscScan", url: "https://bscscan.com" },
+    100: { name: "GnosisScan", url: "https://gnosisscan.io" },
+    137: { name: "PolygonScan", url: "https://polygonscan.com" },
+    4002: { name: "FtmScan Testnet", url: "https://testnet.ftmscan.com" },
+    42161: { name: "Arbiscan", url: "https://arbiscan.io" },
+    43114: { name: "SnowTrace", url: "https://snowtrace.io" },
+    80001: { name: "PolygonScan Mumbai", url: "https://mumbai.polygonscan.com" },
+};
+
+/**
+ * Registers the block explorer of a chain that is not known by default, e.g. the chain of the `custom` network.
+ * An already registered explorer for the chain is replaced.
+ */
+export const registerExplorer = (chainId: number | bigint | string, explorer: BlockExplorer) => {
+    EXPLORERS[Number(chainId)] = { name: explorer.name, url: explorer.url.replace(/\/+$/, "") };
+};
+
+/**
+ * Returns the block explorer of a chain. Throws if no explorer is registered for the chain.
+ */
+export const getExplorer = (chainId: number | bigint | string): BlockExplorer => {
+    const explorer = EXPLORERS[Number(chainId)];
+    if (explorer === undefined) {
+        throw new Error(
+            `No block explorer registered for chainId ${chainId}. Register one with registerExplorer(...) or set NODE_CHAIN_ID and NODE_EXPLORER_URL for the custom network.`,
+        );
+    }
+    return explorer;
+};
+
+export const getSupportedExplorerChainIds = (): number[] => Object.keys(EXPLORERS).map(Number);
+
+export const getAddressUrl = (chainId: number | bigint | string, address: string): string =>
+    `${getExplorer(chainId).url}/address/${address}`;
+
+export const getTxUrl = (chainId: number | bigint | string, txHash: string): string => `${getExplorer(chainId).url}/tx/${txHash}`;
+
+export const getTokenUrl = (chainId: number | bigint | string, token: string): string => `${getExplorer(chainId).url}/token/${token}`;
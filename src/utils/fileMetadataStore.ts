@@ -0,0 +1,26 @@
+import fs from "fs";
+import path from "path";
+import { isHexString } from "ethers";
+import { MetadataStore } from "./metadata";
+
+/** Stores every document as `<metadataHash>.json` in a directory. */
+export class FileMetadataStore implements MetadataStore {
+    constructor(private readonly directory: string) {}
+
+    async get(metadataHash: string): Promise<string | undefined> {
+        const file = this.file(metadataHash);
+        return fs.existsSync(file) ? fs.readFileSync(file, "utf8") : undefined;
+    }
+
+    async put(metadataHash: string, serialized: string): Promise<void> {
+        fs.mkdirSync(this.directory, { recursive: true });
+        fs.writeFileSync(this.file(metadataHash), serialized);
+    }
+
+    private file(metadataHash: string): string {
+        if (!isHexString(metadataHash, 32)) {
+            throw new Error(`Invalid metadata hash ${metadataHash}`);
+        }
+        return path.join(this.directory, `${metadataHash.toLowerCase()}.json`);
+    }
+}
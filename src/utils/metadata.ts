@@ -0,0 +1,180 @@
+import { dataLength, dataSlice, getAddress, getBigInt, hexlify, keccak256, resolveAddress, toUtf8Bytes } from "ethers";
+import { SafeProtocolAction } from "./dataTypes";
+
+/** Version of the metadata document schema. Documents of other versions are rejected. */
+export const METADATA_DOCUMENT_VERSION = 1;
+
+/** Summary of an action of a SafeTransaction or SafeRootAccess. */
+export interface MetadataActionSummary {
+    to: string;
+    /** Value in wei as a decimal string. */
+    value: string;
+    /** Function selector of the calldata, `0x` if the action has no calldata. */
+    selector: string;
+}
+
+/**
+ * Document describing why a plugin executes a transaction. The `metadataHash` of the transaction is the keccak256
+ * hash of the canonical JSON serialization of this document.
+ */
+export interface MetadataDocument {
+    version: typeof METADATA_DOCUMENT_VERSION;
+    /** Plugin that executes the transaction. */
+    plugin: string;
+    /** Human readable description of the intent of the transaction. */
+    intent: string;
+    actions: MetadataActionSummary[];
+    /** Unix timestamp in seconds. */
+    createdAt: number;
+}
+
+export interface MetadataDocumentInput {
+    plugin: string;
+    intent: string;
+    /** Unix timestamp in seconds. Part of the hashed document, so it has to be fixed to reproduce the hash. */
+    createdAt: number;
+}
+
+/**
+ * Serializes a JSON value deterministically: object keys are sorted by their UTF-16 code units
+ * (as in RFC 8785) and no whitespace is added.
+ * Values that have no unambiguous JSON representation, such as `undefined`, bigints or non-finite numbers, are rejected.
+ */
+export const canonicalizeJson = (value: unknown): string => {
+    if (value === null || typeof value === "boolean" || typeof value === "string") {
+        return JSON.stringify(value);
+    }
+    if (typeof value === "number") {
+        if (!Number.isFinite(value)) {
+            throw new Error(`Cannot canonicalize the non-finite number ${value}`);
+        }
+        return JSON.stringify(value);
+    }
+    if (Array.isArray(value)) {
+        return `[${value.map(canonicalizeJson).join(",")}]`;
+    }
+    if (typeof value === "object" && Object.getPrototypeOf(value) === Object.prototype) {
+        const entries = Object.entries(value as Record<string, unknown>)
+            .filter(([, entry]) => entry !== undefined)
+            .sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0));
+        return `{${entries.map(([key, entry]) => `${JSON.stringify(key)}:${canonicalizeJson(entry)}`).join(",")}}`;
+    }
+    throw new Error(`Cannot canonicalize a value of type ${typeof value}`);
+};
+
+const summarizeAction = async (action: SafeProtocolAction): Promise<MetadataActionSummary> => {
+    const data = hexlify(action.data);
+    return {
+        to: getAddress(await resolveAddress(action.to)),
+        value: getBigInt(action.value).toString(),
+        selector: dataLength(data) >= 4 ? dataSlice(data, 0, 4) : "0x",
+    };
+};
+
+/**
+ * Creates the metadata document for the given actions.
+ */
+export const createMetadataDocument = async (input: MetadataDocumentInput, actions: SafeProtocolAction[]): Promise<MetadataDocument> => {
+    return {
+        version: METADATA_DOCUMENT_VERSION,
+        plugin: getAddress(input.plugin),
+        intent: input.intent,
+        actions: await Promise.all(actions.map(summarizeAction)),
+        createdAt: input.createdAt,
+    };
+};
+
+const isChecksummedAddress = (value: unknown): boolean => {
+    try {
+        return typeof value === "string" && getAddress(value) === value;
+    } catch {
+        return false;
+    }
+};
+
+/**
+ * Checks that the value is a metadata document of the supported version. Throws with the first violation.
+ */
+export const validateMetadataDocument = (value: unknown): MetadataDocument => {
+    const document = value as MetadataDocument;
+    if (typeof value !== "object" || value === null) {
+        throw new Error("Metadata document must be an object");
+    }
+    if (document.version !== METADATA_DOCUMENT_VERSION) {
+        throw new Error(`Unsupported metadata document version ${document.version}, expected ${METADATA_DOCUMENT_VERSION}`);
+    }
+    if (!isChecksummedAddress(document.plugin)) {
+        throw new Error("Metadata document plugin must be a checksummed address");
+    }
+    if (typeof document.intent !== "string") {
+        throw new Error("Metadata document intent must be a string");
+    }
+    if (!Number.isSafeInteger(document.createdAt) || document.createdAt < 0) {
+        throw new Error("Metadata document createdAt must be a unix timestamp in seconds");
+    }
+    if (!Array.isArray(document.actions)) {
+        throw new Error("Metadata document actions must be an array");
+    }
+    document.actions.forEach((action, index) => {
+        if (!isChecksummedAddress(action.to)) {
+            throw new Error(`Metadata document action ${index} to must be a checksummed address`);
+        }
+        if (typeof action.value !== "string" || !/^(0|[1-9][0-9]*)$/.test(action.value)) {
+            throw new Error(`Metadata document action ${index} value must be a decimal string`);
+        }
+        if (typeof action.selector !== "string" || !/^0x([0-9a-f]{8})?$/.test(action.selector)) {
+            throw new Error(`Metadata document action ${index} selector must be 4 bytes of lowercase hex or 0x`);
+        }
+    });
+    return document;
+};
+
+/**
+ * Computes the `metadataHash` of a SafeTransaction or SafeRootAccess from its metadata document.
+ */
+export const hashMetadataDocument = (document: MetadataDocument): string => {
+    return keccak256(toUtf8Bytes(canonicalizeJson(validateMetadataDocument(document))));
+};
+
+/** Storage of metadata documents, keyed by their hash. */
+export interface MetadataStore {
+    get(metadataHash: string): Promise<string | undefined>;
+    put(metadataHash: string, serialized: string): Promise<void>;
+}
+
+export class InMemoryMetadataStore implements MetadataStore {
+    private readonly documents = new Map<string, string>();
+
+    async get(metadataHash: string): Promise<string | undefined> {
+        return this.documents.get(metadataHash.toLowerCase());
+    }
+
+    async put(metadataHash: string, serialized: string): Promise<void> {
+        this.documents.set(metadataHash.toLowerCase(), serialized);
+    }
+}
+
+/**
+ * Stores a metadata document in its canonical serialization and returns its hash.
+ */
+export const storeMetadataDocument = async (store: MetadataStore, document: MetadataDocument): Promise<string> => {
+    const metadataHash = hashMetadataDocument(document);
+    await store.put(metadataHash, canonicalizeJson(document));
+    return metadataHash;
+};
+
+/**
+ * Looks up the metadata document of a `metadataHash`, e.g. one emitted by `ActionsExecuted`. Returns undefined if the
+ * store does not contain the hash and throws if the stored document does not match it.
+ */
+export const resolveMetadataDocument = async (store: MetadataStore, metadataHash: string): Promise<MetadataDocument | undefined> => {
+    const serialized = await store.get(metadataHash);
+    if (serialized === undefined) {
+        return undefined;
+    }
+    const document = validateMetadataDocument(JSON.parse(serialized));
+    if (hashMetadataDocument(document) !== metadataHash.toLowerCase()) {
+        throw new Error(`Stored metadata document does not match the metadata hash ${metadataHash}`);
+    }
+    return document;
+};
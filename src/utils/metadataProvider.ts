@@ -0,0 +1,193 @@
+import { AbiCoder, AddressLike, Contract, FetchRequest, Interface, keccak256, Provider, resolveAddress, toUtf8String } from "ethers";
+import { ISafeProtocolPlugin__factory } from "../../typechain-types";
+
+// Provider types returned by `metadataProvider()` of plugins and function handlers.
+export const METADATA_PROVIDER_TYPE_IPFS = 0;
+export const METADATA_PROVIDER_TYPE_URL = 1;
+export const METADATA_PROVIDER_TYPE_CONTRACT = 2;
+export const METADATA_PROVIDER_TYPE_EVENT = 3;
+
+// Contracts referenced by the contract and event provider types expose the metadata with this interface.
+const METADATA_PROVIDER_INTERFACE = new Interface([
+    "function retrieveMetadata(bytes32 metadataHash) view returns (bytes)",
+    "event Metadata(bytes32 indexed metadataHash, bytes data)",
+]);
+
+/** Metadata of a plugin or function handler, as shown by a plugin store. */
+export interface ModuleMetadata {
+    name: string;
+    version: string;
+    /** Permissions requested by a plugin, see `PLUGIN_PERMISSION_*`. */
+    permissions?: number;
+    appUrl?: string;
+    iconUrl?: string;
+}
+
+/** JSON schema of the metadata document, which is validated before it is returned. */
+export const MODULE_METADATA_SCHEMA = {
+    $schema: "http://json-schema.org/draft-07/schema#",
+    type: "object",
+    required: ["name", "version"],
+    properties: {
+        name: { type: "string", minLength: 1 },
+        version: { type: "string", minLength: 1 },
+        permissions: { type: "integer", minimum: 0, maximum: 7 },
+        appUrl: { type: "string", pattern: "^https?://" },
+        iconUrl: { type: "string", pattern: "^(https?|ipfs|data):" },
+    },
+} as const;
+
+/** Fetches the document at a URI and returns it as text. */
+export type MetadataFetcher = (uri: string) => Promise<string>;
+
+export interface ResolveModuleMetadataOptions {
+    /**
+     * Fetchers by URI scheme, e.g. `ipfs` or `https`. They replace the default fetchers, which load `http(s)` URIs with
+     * `FetchRequest` and `ipfs` URIs through the ipfs.io gateway.
+     */
+    fetchers?: Record<string, MetadataFetcher>;
+    /** First block that is searched for the `Metadata` event of the event provider type. */
+    fromBlock?: number;
+}
+
+const fetchText: MetadataFetcher = async (uri) => {
+    const response = await new FetchRequest(uri).send();
+    if (!response.ok()) {
+        throw new Error(`Fetching metadata from ${uri} failed with status ${response.statusCode}`);
+    }
+    return response.bodyText;
+};
+
+const DEFAULT_FETCHERS: Record<string, MetadataFetcher> = {
+    http: fetchText,
+    https: fetchText,
+    ipfs: (uri) => fetchText(`https://ipfs.io/ipfs/${uri.slice("ipfs://".length)}`),
+};
+
+type JsonSchema = {
+    type?: string;
+    required?: readonly string[];
+    properties?: Record<string, JsonSchema>;
+    minLength?: number;
+    minimum?: number;
+    maximum?: number;
+    pattern?: string;
+};
+
+// Validates the subset of JSON schema used by MODULE_METADATA_SCHEMA and returns the first violation.
+const findSchemaViolation = (schema: JsonSchema, value: unknown, path: string): string | undefined => {
+    const types: Record<string, (value: unknown) => boolean> = {
+        object: (value) => typeof value === "object" && value !== null && !Array.isArray(value),
+        string: (value) => typeof value === "string",
+        integer: (value) => Number.isInteger(value),
+    };
+    if (schema.type !== undefined && !types[schema.type](value)) {
+        return `${path} must be of type ${schema.type}`;
+    }
+    if (typeof value === "string" && schema.minLength !== undefined && value.length < schema.minLength) {
+        return `${path} must not be shorter than ${schema.minLength}`;
+    }
+    if (typeof value === "string" && schema.pattern !== undefined && !new RegExp(schema.pattern).test(value)) {
+        return `${path} must match ${schema.pattern}`;
+    }
+    if (typeof value === "number" && schema.minimum !== undefined && value < schema.minimum) {
+        return `${path} must be at least ${schema.minimum}`;
+    }
+    if (typeof value === "number" && schema.maximum !== undefined && value > schema.maximum) {
+        return `${path} must be at most ${schema.maximum}`;
+    }
+    if (types.object(value)) {
+        const object = value as Record<string, unknown>;
+        const missing = schema.required?.find((key) => object[key] === undefined);
+        if (missing !== undefined) {
+            return `${path}.${missing} is required`;
+        }
+        for (const [key, property] of Object.entries(schema.properties ?? {})) {
+            const violation = object[key] !== undefined ? findSchemaViolation(property, object[key], `${path}.${key}`) : undefined;
+            if (violation !== undefined) {
+                return violation;
+            }
+        }
+    }
+    return undefined;
+};
+
+/**
+ * Parses a metadata document and validates it against MODULE_METADATA_SCHEMA.
+ */
+export const parseModuleMetadata = (document: string): ModuleMetadata => {
+    let metadata: unknown;
+    try {
+        metadata = JSON.parse(document);
+    } catch {
+        throw new Error("Metadata document is not valid JSON");
+    }
+    const violation = findSchemaViolation(MODULE_METADATA_SCHEMA, metadata, "metadata");
+    if (violation !== undefined) {
+        throw new Error(`Invalid metadata document: ${violation}`);
+    }
+    return metadata as ModuleMetadata;
+};
+
+const checkMetadataHash = (data: string, metadataHash: string): string => {
+    if (keccak256(data) !== metadataHash) {
+        throw new Error(`Metadata does not match the metadata hash ${metadataHash}`);
+    }
+    return toUtf8String(data);
+};
+
+const fetchUri = async (uri: string, fetchers: Record<string, MetadataFetcher>): Promise<string> => {
+    const scheme = uri.split(":", 1)[0].toLowerCase();
+    const fetcher = fetchers[scheme];
+    if (fetcher === undefined || !uri.includes(":")) {
+        throw new Error(`No metadata fetcher for the URI ${uri}`);
+    }
+    return fetcher(uri);
+};
+
+/**
+ * Loads the metadata document of a plugin or function handler from the provider returned by its `metadataProvider()`.
+ * The location of the provider is ABI encoded depending on the provider type:
+ * - IPFS and URL: `(string uri)`, loaded with the fetcher of the URI scheme
+ * - Contract: `(address provider, bytes32 metadataHash)`, loaded with `retrieveMetadata(metadataHash)`
+ * - Event: `(address emitter, bytes32 metadataHash)`, loaded from the `Metadata(metadataHash, data)` event of the emitter
+ * Metadata loaded from a contract or an event has to match the metadata hash.
+ */
+export const resolveModuleMetadata = async (
+    provider: Provider,
+    module: AddressLike,
+    options: ResolveModuleMetadataOptions = {},
+): Promise<ModuleMetadata> => {
+    const moduleAddress = await resolveAddress(module);
+    const [providerType, location] = await ISafeProtocolPlugin__factory.connect(moduleAddress, provider).metadataProvider();
+    const fetchers = { ...DEFAULT_FETCHERS, ...options.fetchers };
+    const abiCoder = AbiCoder.defaultAbiCoder();
+
+    switch (Number(providerType)) {
+        case METADATA_PROVIDER_TYPE_IPFS:
+        case METADATA_PROVIDER_TYPE_URL: {
+            const [uri] = abiCoder.decode(["string"], location);
+            return parseModuleMetadata(await fetchUri(uri, fetchers));
+        }
+        case METADATA_PROVIDER_TYPE_CONTRACT: {
+            const [address, metadataHash] = abiCoder.decode(["address", "bytes32"], location);
+            const data: string = await new Contract(address, METADATA_PROVIDER_INTERFACE, provider).retrieveMetadata(metadataHash);
+            return parseModuleMetadata(checkMetadataHash(data, metadataHash));
+        }
+        case METADATA_PROVIDER_TYPE_EVENT: {
+            const [address, metadataHash] = abiCoder.decode(["address", "bytes32"], location);
+            const logs = await provider.getLogs({
+                address,
+                topics: METADATA_PROVIDER_INTERFACE.encodeFilterTopics("Metadata", [metadataHash]),
+                fromBlock: options.fromBlock ?? 0,
+            });
+            if (logs.length === 0) {
+                throw new Error(`No Metadata event for the metadata hash ${metadataHash} emitted by ${address}`);
+            }
+            const [, data] = METADATA_PROVIDER_INTERFACE.decodeEventLog("Metadata", logs[0].data, logs[0].topics);
+            return parseModuleMetadata(checkMetadataHash(data, metadataHash));
+        }
+        default:
+            throw new Error(`Unsupported metadata provider type ${providerType} of ${moduleAddress}`);
+    }
+};
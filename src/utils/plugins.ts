@@ -0,0 +1,57 @@
+import type { SafeProtocolManager } from "../../typechain-types";
+
+// Start and end of the linked list of enabled plugins of an account, SENTINEL_MODULES in SafeProtocolManager.sol.
+export const SENTINEL_MODULES = "0x0000000000000000000000000000000000000001";
+
+const DEFAULT_PAGE_SIZE = 10;
+
+export interface PluginWithPermissions {
+    plugin: string;
+    permissions: number;
+}
+
+/**
+ * Returns all plugins enabled for an account by paging through `getPluginsPaginated` until the sentinel is reached.
+ * The plugins are returned in list order, i.e. the most recently enabled plugin first.
+ */
+export const getAllPlugins = async (manager: SafeProtocolManager, account: string, pageSize = DEFAULT_PAGE_SIZE): Promise<string[]> => {
+    const plugins: string[] = [];
+    let start = SENTINEL_MODULES;
+    for (;;) {
+        const [page, next] = await manager.getPluginsPaginated(start, pageSize, account);
+        plugins.push(...page);
+        if (next === SENTINEL_MODULES || page.length === 0) return plugins;
+        start = next;
+    }
+};
+
+/**
+ * Returns the predecessor of a plugin in the linked list, which has to be passed as `prevPlugin` to `disablePlugin`.
+ * Throws if the plugin is not enabled for the account.
+ */
+export const findPrevPlugin = async (
+    manager: SafeProtocolManager,
+    account: string,
+    plugin: string,
+    pageSize = DEFAULT_PAGE_SIZE,
+): Promise<string> => {
+    const plugins = await getAllPlugins(manager, account, pageSize);
+    const index = plugins.findIndex((enabledPlugin) => enabledPlugin.toLowerCase() === plugin.toLowerCase());
+    if (index === -1) {
+        throw new Error(`Plugin ${plugin} is not enabled for account ${account}`);
+    }
+    return index === 0 ? SENTINEL_MODULES : plugins[index - 1];
+};
+
+/**
+ * Returns all plugins enabled for an account together with the permissions granted to them.
+ */
+export const getPluginsWithPermissions = async (manager: SafeProtocolManager, account: string): Promise<PluginWithPermissions[]> => {
+    const plugins = await getAllPlugins(manager, account);
+    return await Promise.all(
+        plugins.map(async (plugin) => {
+            const info = await manager.getPluginInfo(account, plugin);
+            return { plugin, permissions: Number(info.permissions) };
+        }),
+    );
+};
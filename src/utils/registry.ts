@@ -0,0 +1,71 @@
+import { toBeHex, zeroPadValue } from "ethers";
+import type { SafeProtocolRegistry } from "../../typechain-types";
+import { SENTINEL_MODULES } from "./plugins";
+
+const DEFAULT_PAGE_SIZE = 50;
+
+/** Information stored in the registry about a listed module. */
+export interface ListedModule {
+    module: string;
+    /** Timestamp of listing the module with the requested module type, as returned by `check`. */
+    listedAt: number;
+    /** Timestamp of flagging the module, 0 if not flagged. */
+    flaggedAt: number;
+    moduleTypes: number;
+    /** Metadata set with `setModuleMetadata`, bytes32(0) if not set. */
+    metadata: string;
+}
+
+export interface ListModulesOptions {
+    /** Include flagged modules, which are not permitted by the manager. Defaults to false. */
+    includeFlagged?: boolean;
+    pageSize?: number;
+}
+
+/**
+ * Returns all modules listed with a module type by paging through `getModulesPaginated` until the sentinel is reached.
+ * Flagged modules are included. The modules are returned in list order, i.e. the most recently listed module first.
+ */
+export const getAllModules = async (
+    registry: SafeProtocolRegistry,
+    moduleType: number,
+    pageSize = DEFAULT_PAGE_SIZE,
+): Promise<string[]> => {
+    const modules: string[] = [];
+    let start = SENTINEL_MODULES;
+    for (;;) {
+        const [page, next] = await registry.getModulesPaginated(moduleType, start, pageSize);
+        modules.push(...page);
+        if (next === SENTINEL_MODULES || page.length === 0) return modules;
+        start = next;
+    }
+};
+
+/**
+ * Returns the modules listed with a module type together with the information returned by `getModuleInfo`, e.g. to show
+ * all approved plugins in a plugin store. Flagged modules are skipped unless `includeFlagged` is set.
+ */
+export const getListedModules = async (
+    registry: SafeProtocolRegistry,
+    moduleType: number,
+    options: ListModulesOptions = {},
+): Promise<ListedModule[]> => {
+    const modules = await getAllModules(registry, moduleType, options.pageSize);
+    const listedModules = await Promise.all(
+        modules.map(async (module) => {
+            // Module types added with `updateModuleTypes` are listed later than the module itself.
+            const [info, [listedAt]] = await Promise.all([
+                registry.getModuleInfo(module),
+                registry.check(module, zeroPadValue(toBeHex(moduleType), 32)),
+            ]);
+            return {
+                module,
+                listedAt: Number(listedAt),
+                flaggedAt: Number(info.flaggedAt),
+                moduleTypes: Number(info.moduleTypes),
+                metadata: info.metadata,
+            };
+        }),
+    );
+    return listedModules.filter((listedModule) => options.includeFlagged || listedModule.flaggedAt === 0);
+};
@@ -1,14 +1,133 @@
-import solc from "solc";
+import crypto from "crypto";
+import fs from "fs";
+import path from "path";
+import { keccak256 } from "ethers";
+import solcWrapper from "solc/wrapper";
+
+export interface LoadSolcOptions {
+    /** Directory containing soljson builds and a list.json describing them. Defaults to SOLC_CACHE_DIR. */
+    cacheDir?: string;
+    /** List file used to verify the checksums of the builds. Defaults to SOLC_LIST_FILE or list.json of the directory the build is loaded from. */
+    listFile?: string;
+    /** Directory with soljson builds and a list.json of Hardhat, e.g. the directory of the solcjs build of the compile task. */
+    compilersDir?: string;
+    /** Fail instead of downloading the compiler when it is not found on disk. Defaults to SOLC_OFFLINE=true. */
+    offline?: boolean;
+}
+
+interface SolcBuild {
+    path: string;
+    version: string;
+    longVersion: string;
+    keccak256?: string;
+    sha256?: string;
+}
 
 const solcCache: Record<string, any> = {};
 
-export const loadSolc = async (version: string): Promise<any> => {
+const findBuild = (listFile: string, version: string): SolcBuild | undefined => {
+    if (!fs.existsSync(listFile)) return undefined;
+    const list: { builds: SolcBuild[] } = JSON.parse(fs.readFileSync(listFile, "utf8"));
+    return list.builds.find((build) => build.longVersion === version || build.version === version);
+};
+
+/**
+ * Verifies a soljson build against the keccak256 and sha256 checksums of the list file.
+ * Throws if the list file has no checksum for the build or a checksum does not match.
+ */
+const verifyBuild = (file: string, build: SolcBuild, listFile: string) => {
+    if (build.keccak256 === undefined && build.sha256 === undefined) {
+        throw new Error(`No checksum for solc ${build.longVersion} in ${listFile}`);
+    }
+    const content = fs.readFileSync(file);
+    if (build.keccak256 !== undefined && keccak256(content) !== build.keccak256.toLowerCase()) {
+        throw new Error(`keccak256 checksum of ${file} does not match ${listFile}`);
+    }
+    const sha256 = `0x${crypto.createHash("sha256").update(content).digest("hex")}`;
+    if (build.sha256 !== undefined && sha256 !== build.sha256.toLowerCase()) {
+        throw new Error(`sha256 checksum of ${file} does not match ${listFile}`);
+    }
+};
+
+/**
+ * Looks up a soljson build in a directory and returns its path after verifying the checksums,
+ * or undefined if the directory does not contain the build.
+ */
+const resolveFromDir = (dir: string, version: string, listFile?: string): string | undefined => {
+    const verificationList = listFile ?? path.join(dir, "list.json");
+    const build = findBuild(verificationList, version);
+    if (build === undefined) return undefined;
+
+    const file = path.join(dir, build.path);
+    if (!fs.existsSync(file)) return undefined;
+
+    verifyBuild(file, build, verificationList);
+    return file;
+};
+
+/**
+ * Emscripten builds of soljson register process handlers that abort on any uncaught exception or unhandled
+ * rejection, which would take down the whole Hardhat process. The handlers are removed after loading.
+ */
+const requireSoljson = (id: string): any => {
+    const uncaughtExceptionListeners = process.listeners("uncaughtException");
+    const unhandledRejectionListeners = process.listeners("unhandledRejection");
+    try {
+        return require(id);
+    } finally {
+        process
+            .listeners("uncaughtException")
+            .filter((listener) => !uncaughtExceptionListeners.includes(listener))
+            .forEach((listener) => process.removeListener("uncaughtException", listener));
+        process
+            .listeners("unhandledRejection")
+            .filter((listener) => !unhandledRejectionListeners.includes(listener))
+            .forEach((listener) => process.removeListener("unhandledRejection", listener));
+    }
+};
+
+const loadRemoteSolc = async (version: string): Promise<any> => {
+    // The solc package bundles its own soljson build, so it is only loaded when a download is required.
+    const solc = requireSoljson("solc");
     return await new Promise((resolve, reject) => {
-        if (solcCache[version] !== undefined) resolve(solcCache[version]);
-        else
-            solc.loadRemoteVersion(`v${version}`, (error: any, soljson: any) => {
-                solcCache[version] = soljson;
-                return error ? reject(error) : resolve(soljson);
-            });
+        solc.loadRemoteVersion(`v${version}`, (error: any, soljson: any) => {
+            return error ? reject(error) : resolve(soljson);
+        });
     });
-};
\ No newline at end of file
+};
+
+/**
+ * Loads a solcjs compiler. The compiler is resolved from the configured cache directory first, then from the
+ * compilers directory of Hardhat and only then downloaded, unless offline mode is enabled.
+ * @param version Version of the compiler e.g. 0.8.18+commit.87f61d96
+ */
+export const loadSolc = async (version: string, options: LoadSolcOptions = {}): Promise<any> => {
+    if (solcCache[version] !== undefined) return solcCache[version];
+
+    const cacheDir = options.cacheDir ?? process.env.SOLC_CACHE_DIR;
+    const listFile = options.listFile ?? process.env.SOLC_LIST_FILE;
+    const offline = options.offline ?? process.env.SOLC_OFFLINE === "true";
+
+    const searchDirs = [cacheDir, options.compilersDir].filter((dir): dir is string => !!dir);
+    let compiler: any;
+    for (const dir of searchDirs) {
+        const file = resolveFromDir(dir, version, listFile);
+        if (file !== undefined) {
+            compiler = solcWrapper(requireSoljson(file));
+            break;
+        }
+    }
+
+    if (compiler === undefined) {
+        if (offline) {
+            throw new Error(
+                `solc ${version} not found in ${searchDirs.join(", ")} and offline mode is enabled. ` +
+                    `Copy the soljson build and its list.json into SOLC_CACHE_DIR or run \`hardhat compile\` on a machine with network access.`,
+            );
+        }
+        compiler = await loadRemoteSolc(version);
+    }
+
+    solcCache[version] = compiler;
+    return compiler;
+};
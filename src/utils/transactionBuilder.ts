@@ -0,0 +1,192 @@
+import {
+    AddressLike,
+    BaseContract,
+    BigNumberish,
+    BytesLike,
+    getAddress,
+    getBigInt,
+    hexlify,
+    Interface,
+    keccak256,
+    resolveAddress,
+    toUtf8Bytes,
+    ZeroHash,
+} from "ethers";
+import { AccountCallArgs, AccountCallMethod } from "./accountCall";
+import { PLUGIN_PERMISSION_CALL_TO_SELF, PLUGIN_PERMISSION_EXECUTE_CALL, PLUGIN_PERMISSION_EXECUTE_DELEGATECALL } from "./constants";
+import { SafeProtocolAction, SafeRootAccess, SafeTransaction } from "./dataTypes";
+import { canonicalizeJson, createMetadataDocument, hashMetadataDocument, MetadataDocument, MetadataDocumentInput } from "./metadata";
+
+/**
+ * Context used to validate the built transaction with the rules the manager enforces on execution.
+ * Rules that depend on a value that is not set are skipped.
+ */
+export interface SafeTransactionBuilderOptions {
+    /** Account that executes the actions. */
+    account?: AddressLike;
+    /** SafeProtocolManager that executes the transaction. */
+    manager?: AddressLike;
+    /** Permissions granted to the plugin that executes the transaction. */
+    permissions?: number;
+}
+
+interface PendingAction {
+    to: AddressLike;
+    value: bigint;
+    data: string;
+}
+
+/**
+ * Fluent builder for the SafeTransaction and SafeRootAccess structs that plugins pass to the SafeProtocolManager.
+ *
+ * ```ts
+ * const safeTx = await new SafeTransactionBuilder({ account, manager, permissions })
+ *     .call(token, "transfer", [to, amount])
+ *     .action(recipient)
+ *     .value(parseEther("1"))
+ *     .nonce(1)
+ *     .metadataDocument({ plugin, intent: "Pay invoice", createdAt })
+ *     .build();
+ * ```
+ */
+export class SafeTransactionBuilder {
+    private readonly actions: PendingAction[] = [];
+    private transactionNonce = 0n;
+    private transactionMetadataHash: string = ZeroHash;
+    private metadataInput?: MetadataDocumentInput;
+
+    constructor(private readonly options: SafeTransactionBuilderOptions = {}) {}
+
+    /**
+     * Adds an action that calls a function of a TypeChain contract.
+     * @param contract Contract instance, its target is used as `to` of the action
+     * @param method Name of the function to call
+     * @param args Arguments of the function
+     */
+    call<C extends BaseContract, M extends AccountCallMethod<C>>(contract: C, method: M, args: AccountCallArgs<C, M>): this;
+    /**
+     * Adds an action that calls a function encoded with an ethers Interface.
+     * @param to Address of the called contract
+     * @param contractInterface Interface that contains the function
+     * @param method Name or signature of the function to call
+     * @param args Arguments of the function
+     */
+    call(to: AddressLike, contractInterface: Interface, method: string, args: ReadonlyArray<unknown>): this;
+    call(...params: [BaseContract, string, ReadonlyArray<unknown>] | [AddressLike, Interface, string, ReadonlyArray<unknown>]): this {
+        if (params.length === 3) {
+            const [contract, method, args] = params;
+            return this.action(contract.target, contract.interface.encodeFunctionData(method, args));
+        }
+        const [to, contractInterface, method, args] = params;
+        return this.action(to, contractInterface.encodeFunctionData(method, args));
+    }
+
+    /**
+     * Adds an action with raw calldata, e.g. a plain ETH transfer.
+     */
+    action(to: AddressLike, data: BytesLike = "0x"): this {
+        this.actions.push({ to, value: 0n, data: hexlify(data) });
+        return this;
+    }
+
+    /**
+     * Sets the ETH value of the last added action.
+     */
+    value(value: BigNumberish): this {
+        const action = this.actions.at(-1);
+        if (action === undefined) {
+            throw new Error("Add an action before setting its value");
+        }
+        action.value = getBigInt(value);
+        return this;
+    }
+
+    nonce(nonce: BigNumberish): this {
+        this.transactionNonce = getBigInt(nonce);
+        return this;
+    }
+
+    /**
+     * Derives the metadata hash from arbitrary metadata, serialized as canonical JSON so that the hash does not depend on
+     * the order of the keys. Throws for values without a JSON representation, e.g. bigints have to be passed as strings.
+     */
+    metadata(metadata: object): this {
+        return this.metadataHash(keccak256(toUtf8Bytes(canonicalizeJson(metadata))));
+    }
+
+    /**
+     * Derives the metadata hash from a metadata document that describes the actions of the builder, see `buildMetadataDocument`.
+     */
+    metadataDocument(input: MetadataDocumentInput): this {
+        this.metadataInput = input;
+        return this;
+    }
+
+    metadataHash(metadataHash: BytesLike): this {
+        this.metadataInput = undefined;
+        this.transactionMetadataHash = hexlify(metadataHash);
+        return this;
+    }
+
+    /**
+     * Builds the metadata document of the transaction, which has to be stored to resolve the metadata hash later on.
+     * Returns undefined if no metadata was set with `metadataDocument`.
+     */
+    async buildMetadataDocument(): Promise<MetadataDocument | undefined> {
+        return this.metadataInput !== undefined ? createMetadataDocument(this.metadataInput, await this.resolveActions()) : undefined;
+    }
+
+    /**
+     * Builds the SafeTransaction for `executeTransaction`. Throws if an action would make the manager revert
+     * with `InvalidToFieldInSafeProtocolAction` or `MissingPluginPermission`.
+     */
+    async build(): Promise<SafeTransaction> {
+        const actions = await this.resolveActions();
+        const [account, manager] = await Promise.all([this.resolveOption(this.options.account), this.resolveOption(this.options.manager)]);
+        actions.forEach((action, index) => {
+            if (action.to === manager) {
+                throw new Error(`InvalidToFieldInSafeProtocolAction: action ${index} calls the manager ${manager}`);
+            } else if (action.to === account) {
+                this.checkPermission(index, PLUGIN_PERMISSION_CALL_TO_SELF, "CALL_TO_SELF");
+            } else {
+                this.checkPermission(index, PLUGIN_PERMISSION_EXECUTE_CALL, "EXECUTE_CALL");
+            }
+        });
+        return { actions, nonce: this.transactionNonce, metadataHash: await this.resolveMetadataHash() };
+    }
+
+    /**
+     * Builds the SafeRootAccess for `executeRootAccess`, which delegate calls a single action. Throws if the builder
+     * does not contain exactly one action or if the plugin is not granted the EXECUTE_DELEGATECALL permission.
+     */
+    async buildRootAccess(): Promise<SafeRootAccess> {
+        const actions = await this.resolveActions();
+        if (actions.length !== 1) {
+            throw new Error(`A root access transaction requires exactly one action, got ${actions.length}`);
+        }
+        this.checkPermission(0, PLUGIN_PERMISSION_EXECUTE_DELEGATECALL, "EXECUTE_DELEGATECALL");
+        return { action: actions[0], nonce: this.transactionNonce, metadataHash: await this.resolveMetadataHash() };
+    }
+
+    private async resolveActions(): Promise<SafeProtocolAction[]> {
+        return Promise.all(this.actions.map(async (action) => ({ ...action, to: getAddress(await resolveAddress(action.to)) })));
+    }
+
+    private async resolveMetadataHash(): Promise<string> {
+        const document = await this.buildMetadataDocument();
+        return document !== undefined ? hashMetadataDocument(document) : this.transactionMetadataHash;
+    }
+
+    private async resolveOption(address: AddressLike | undefined): Promise<string | undefined> {
+        return address !== undefined ? getAddress(await resolveAddress(address)) : undefined;
+    }
+
+    private checkPermission(index: number, permission: number, name: string) {
+        const { permissions } = this.options;
+        if (permissions !== undefined && (permissions & permission) !== permission) {
+            throw new Error(
+                `MissingPluginPermission: action ${index} requires the ${name} permission (${permission}), granted ${permissions}`,
+            );
+        }
+    }
+}
@@ -100,7 +100,7 @@ describe("FunctionHandler", async () => {
 
         await expect(account.executeCallViaMock(account.target, 0, dataSetFunctionHandler, MaxUint256))
             .to.be.revertedWithCustomError(functionHandlerManager, "ModuleNotPermitted")
-            .withArgs(user1.address, 0, 0, 2);
+            .withArgs(user1.address, 0, 0, MODULE_TYPE_FUNCTION_HANDLER);
     });
 
     it("Should not allow hooks module type as function handler", async () => {
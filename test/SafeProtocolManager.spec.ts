@@ -5,13 +5,22 @@ import { MaxUint256, ZeroAddress } from "ethers";
 import { SENTINEL_MODULES } from "./utils/constants";
 import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
 import { buildRootTx, buildSingleTx } from "./utils/builder";
+import { SafeTransactionBuilder } from "../src/utils/transactionBuilder";
+import {
+    createMetadataDocument,
+    hashMetadataDocument,
+    InMemoryMetadataStore,
+    MetadataDocument,
+    resolveMetadataDocument,
+    storeMetadataDocument,
+} from "../src/utils/metadata";
 import { getHooksWithFailingPrechecks, getHooksWithPassingChecks, getHooksWithFailingPostCheck } from "./utils/mockHooksBuilder";
 import { MODULE_TYPE_PLUGIN, MODULE_TYPE_HOOKS } from "../src/utils/constants";
 import { getInstance } from "./utils/contracts";
 import { MockContract, SafeProtocolManager } from "../typechain-types";
 import {
     PLUGIN_PERMISSION_CALL_TO_SELF,
-    PLUGIN_PERMISSION_DELEGATE_CALL,
+    PLUGIN_PERMISSION_EXECUTE_DELEGATECALL,
     PLUGIN_PERMISSION_EXECUTE_CALL,
     PLUGIN_PERMISSION_NONE,
 } from "../src/utils/constants";
@@ -195,7 +204,7 @@ describe("SafeProtocolManager", async () => {
 
                 const data = safeProtocolManager.interface.encodeFunctionData("enablePlugin", [
                     pluginAddress,
-                    PLUGIN_PERMISSION_DELEGATE_CALL,
+                    PLUGIN_PERMISSION_EXECUTE_DELEGATECALL,
                 ]);
 
                 await expect(account.exec(account.target, 0, data)).to.be.revertedWithCustomError(
@@ -621,6 +630,98 @@ describe("SafeProtocolManager", async () => {
                 );
             });
 
+            it("Should process a SafeTransaction created with the SafeTransactionBuilder", async function () {
+                const { safeProtocolManager, safeProtocolRegistry, account } = await loadFixture(deployContractsWithEnabledManagerFixture);
+                const plugin = await (await hre.ethers.getContractFactory("TestPlugin")).deploy();
+                await safeProtocolRegistry.connect(owner).addModule(await plugin.getAddress(), MODULE_TYPE_PLUGIN);
+                await account.exec(
+                    account.target,
+                    0,
+                    safeProtocolManager.interface.encodeFunctionData("enablePlugin", [plugin.target, PLUGIN_PERMISSION_EXECUTE_CALL]),
+                );
+                await deployer.sendTransaction({ to: account.target, value: hre.ethers.parseEther("1") });
+                const mockContract = await hre.ethers.deployContract("MockContract");
+
+                const builder = new SafeTransactionBuilder({
+                    account,
+                    manager: safeProtocolManager,
+                    permissions: PLUGIN_PERMISSION_EXECUTE_CALL,
+                })
+                    .call(safeProtocolRegistry, "check", [plugin.target, hre.ethers.ZeroHash])
+                    .call(mockContract.target, safeProtocolRegistry.interface, "supportsInterface", ["0x01ffc9a7"])
+                    .action(user1.address)
+                    .value(hre.ethers.parseEther("1"))
+                    .nonce(2)
+                    .metadataDocument({ plugin: await plugin.getAddress(), intent: "Transfer", createdAt: 1 });
+                const safeTx = await builder.build();
+
+                expect(safeTx.actions.map((action) => action.to)).to.be.deep.equal([
+                    safeProtocolRegistry.target,
+                    mockContract.target,
+                    user1.address,
+                ]);
+                const document = await builder.buildMetadataDocument();
+                expect(document?.actions.map((action) => action.selector)).to.be.deep.equal([
+                    safeProtocolRegistry.interface.getFunction("check").selector,
+                    "0x01ffc9a7",
+                    "0x",
+                ]);
+                expect(safeTx.metadataHash).to.be.equal(hashMetadataDocument(document as MetadataDocument));
+                const balanceBefore = await hre.ethers.provider.getBalance(user1.address);
+                await expect(plugin.executeFromPlugin(safeProtocolManager, account, safeTx))
+                    .to.emit(safeProtocolManager, "ActionsExecuted")
+                    .withArgs(account.target, safeTx.metadataHash, 2);
+                expect(await hre.ethers.provider.getBalance(user1.address)).to.be.equal(balanceBefore + hre.ethers.parseEther("1"));
+            });
+
+            it("Should resolve the metadata document of an executed SafeTransaction", async function () {
+                const { safeProtocolManager, safeProtocolRegistry, account } = await loadFixture(deployContractsWithEnabledManagerFixture);
+                const plugin = await (await hre.ethers.getContractFactory("TestPlugin")).deploy();
+                await safeProtocolRegistry.connect(owner).addModule(await plugin.getAddress(), MODULE_TYPE_PLUGIN);
+                await account.exec(
+                    account.target,
+                    0,
+                    safeProtocolManager.interface.encodeFunctionData("enablePlugin", [plugin.target, PLUGIN_PERMISSION_EXECUTE_CALL]),
+                );
+                const document = await createMetadataDocument({ plugin: await plugin.getAddress(), intent: "Ping", createdAt: 1 }, [
+                    { to: user1.address, value: 0n, data: "0x" },
+                ]);
+                const store = new InMemoryMetadataStore();
+                await storeMetadataDocument(store, document);
+
+                const safeTx = buildSingleTx(user1.address, 0n, "0x", BigInt(1), document);
+                const receipt = await (await plugin.executeFromPlugin(safeProtocolManager, account, safeTx)).wait();
+                const [event] = await safeProtocolManager.queryFilter(safeProtocolManager.filters.ActionsExecuted(), receipt?.blockNumber);
+
+                expect(await resolveMetadataDocument(store, event.args.metadataHash)).to.be.deep.equal(document);
+                // The hash does not depend on the order of the keys.
+                const reordered = { createdAt: 1, actions: document.actions, intent: "Ping", plugin: document.plugin, version: 1 } as const;
+                expect(hashMetadataDocument(reordered)).to.be.equal(event.args.metadataHash);
+                expect(await resolveMetadataDocument(store, hre.ethers.ZeroHash)).to.be.undefined;
+
+                await store.put(event.args.metadataHash, JSON.stringify({ ...document, intent: "Drain" }));
+                await expect(resolveMetadataDocument(store, event.args.metadataHash)).to.be.rejectedWith(
+                    `Stored metadata document does not match the metadata hash ${event.args.metadataHash}`,
+                );
+            });
+
+            it("Should not build a SafeTransaction that the manager would reject", async function () {
+                const { safeProtocolManager, account } = await loadFixture(deployContractsWithEnabledManagerFixture);
+                const builder = () =>
+                    new SafeTransactionBuilder({ account, manager: safeProtocolManager, permissions: PLUGIN_PERMISSION_EXECUTE_CALL });
+
+                await expect(builder().call(safeProtocolManager, "setHooks", [ZeroAddress]).build()).to.be.rejectedWith(
+                    `InvalidToFieldInSafeProtocolAction: action 0 calls the manager ${safeProtocolManager.target}`,
+                );
+                await expect(builder().action(user1.address).action(account).build()).to.be.rejectedWith(
+                    "MissingPluginPermission: action 1 requires the CALL_TO_SELF permission (2), granted 1",
+                );
+                await expect(builder().action(user1.address).buildRootAccess()).to.be.rejectedWith(
+                    "MissingPluginPermission: action 0 requires the EXECUTE_DELEGATECALL permission (4), granted 1",
+                );
+                expect(() => builder().value(1)).to.throw("Add an action before setting its value");
+            });
+
             it("Should process a SafeTransaction with hooks enabled and transfer ETH from an account to an EOA", async () => {
                 const { safeProtocolManager, account, safeProtocolRegistry } = await loadFixture(deployContractsWithEnabledManagerFixture);
                 // Enable hooks on the account
@@ -803,7 +904,7 @@ describe("SafeProtocolManager", async () => {
 
                 const data = safeProtocolManager.interface.encodeFunctionData("enablePlugin", [
                     await plugin.getAddress(),
-                    PLUGIN_PERMISSION_DELEGATE_CALL,
+                    PLUGIN_PERMISSION_EXECUTE_DELEGATECALL,
                 ]);
                 await account.exec(account.target, 0, data);
 
@@ -872,7 +973,7 @@ describe("SafeProtocolManager", async () => {
 
                 const data = safeProtocolManager.interface.encodeFunctionData("enablePlugin", [
                     await plugin.getAddress(),
-                    PLUGIN_PERMISSION_DELEGATE_CALL,
+                    PLUGIN_PERMISSION_EXECUTE_DELEGATECALL,
                 ]);
                 await account.exec(account.target, 0, data);
 
@@ -933,7 +1034,7 @@ describe("SafeProtocolManager", async () => {
 
                 const data = safeProtocolManager.interface.encodeFunctionData("enablePlugin", [
                     await plugin.getAddress(),
-                    PLUGIN_PERMISSION_DELEGATE_CALL,
+                    PLUGIN_PERMISSION_EXECUTE_DELEGATECALL,
                 ]);
                 await account.exec(account.target, 0, data);
 
@@ -970,7 +1071,7 @@ describe("SafeProtocolManager", async () => {
 
                 const data = safeProtocolManager.interface.encodeFunctionData("enablePlugin", [
                     pluginAddress,
-                    PLUGIN_PERMISSION_DELEGATE_CALL,
+                    PLUGIN_PERMISSION_EXECUTE_DELEGATECALL,
                 ]);
                 await account.exec(account.target, 0, data);
 
@@ -1006,7 +1107,7 @@ describe("SafeProtocolManager", async () => {
 
                 const data = safeProtocolManager.interface.encodeFunctionData("enablePlugin", [
                     await plugin.getAddress(),
-                    PLUGIN_PERMISSION_DELEGATE_CALL,
+                    PLUGIN_PERMISSION_EXECUTE_DELEGATECALL,
                 ]);
                 await account.exec(account.target, 0, data);
 
@@ -1054,7 +1155,7 @@ describe("SafeProtocolManager", async () => {
 
                 const data = safeProtocolManager.interface.encodeFunctionData("enablePlugin", [
                     await plugin.getAddress(),
-                    PLUGIN_PERMISSION_DELEGATE_CALL,
+                    PLUGIN_PERMISSION_EXECUTE_DELEGATECALL,
                 ]);
                 await account.exec(account.target, 0, data);
 
@@ -1072,8 +1173,8 @@ describe("SafeProtocolManager", async () => {
                     .withArgs(
                         plugin.target,
                         PLUGIN_PERMISSION_EXECUTE_CALL,
-                        PLUGIN_PERMISSION_DELEGATE_CALL,
-                        PLUGIN_PERMISSION_DELEGATE_CALL,
+                        PLUGIN_PERMISSION_EXECUTE_DELEGATECALL,
+                        PLUGIN_PERMISSION_EXECUTE_DELEGATECALL,
                     );
             });
 
@@ -1088,7 +1189,7 @@ describe("SafeProtocolManager", async () => {
 
                 const data = safeProtocolManager.interface.encodeFunctionData("enablePlugin", [
                     await plugin.getAddress(),
-                    PLUGIN_PERMISSION_DELEGATE_CALL,
+                    PLUGIN_PERMISSION_EXECUTE_DELEGATECALL,
                 ]);
                 await account.exec(account.target, 0, data);
 
@@ -1123,7 +1224,7 @@ describe("SafeProtocolManager", async () => {
                 await account.exec(account.target, 0, data);
 
                 // Set root access flag back to true
-                await plugin.setRequiresPermissions(PLUGIN_PERMISSION_DELEGATE_CALL);
+                await plugin.setRequiresPermissions(PLUGIN_PERMISSION_EXECUTE_DELEGATECALL);
 
                 const safeTx = buildRootTx(
                     await testFallbackReceiver.getAddress(),
@@ -1136,8 +1237,8 @@ describe("SafeProtocolManager", async () => {
                     .to.be.revertedWithCustomError(safeProtocolManager, "MissingPluginPermission")
                     .withArgs(
                         pluginAddress,
-                        PLUGIN_PERMISSION_DELEGATE_CALL,
-                        PLUGIN_PERMISSION_DELEGATE_CALL,
+                        PLUGIN_PERMISSION_EXECUTE_DELEGATECALL,
+                        PLUGIN_PERMISSION_EXECUTE_DELEGATECALL,
                         PLUGIN_PERMISSION_EXECUTE_CALL,
                     );
             });
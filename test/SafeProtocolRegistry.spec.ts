@@ -8,7 +8,11 @@ import {
     MODULE_TYPE_FUNCTION_HANDLER,
     MODULE_TYPE_SIGNATURE_VALIDATOR,
     MODULE_TYPE_SIGNATURE_VALIDATOR_HOOKS,
+    REGISTRY_REASON_DEPRECATED,
+    REGISTRY_REASON_FLAGGED_BY_MISTAKE,
 } from "../src/utils/constants";
+import { encodeModuleTypes, MAX_MODULE_TYPES } from "../src/utils/bitmask";
+import { SENTINEL_MODULES } from "../src/utils/plugins";
 import { getHooksWithPassingChecks, getHooksWithFailingCallToSupportsInterfaceMethod } from "./utils/mockHooksBuilder";
 import { getPluginWithFailingCallToSupportsInterfaceMethod } from "./utils/mockPluginBuilder";
 import { getFunctionHandlerWithFailingCallToSupportsInterfaceMethod } from "./utils/mockFunctionHandlerBuilder";
@@ -37,6 +41,20 @@ describe("SafeProtocolRegistry", async () => {
         );
     });
 
+    it("Should emit every module type a module is added with", async () => {
+        const { safeProtocolRegistry } = await setupTests();
+        const mockModule = await (await hre.ethers.getContractFactory("MockContract")).deploy();
+        await mockModule.givenMethodReturnBool("0x01ffc9a7", true);
+
+        await expect(safeProtocolRegistry.connect(owner).addModule(mockModule, encodeModuleTypes(["plugin", "hooks"])))
+            .to.emit(safeProtocolRegistry, "ModuleAdded")
+            .withArgs(mockModule.target)
+            .and.to.emit(safeProtocolRegistry, "ModuleListed")
+            .withArgs(mockModule.target, MODULE_TYPE_PLUGIN)
+            .and.to.emit(safeProtocolRegistry, "ModuleListed")
+            .withArgs(mockModule.target, MODULE_TYPE_HOOKS);
+    });
+
     it("Should allow adding a module with multiple types", async () => {
         const { safeProtocolRegistry } = await setupTests();
 
@@ -47,11 +65,7 @@ describe("SafeProtocolRegistry", async () => {
             .connect(owner)
             .addModule(
                 mockModule,
-                MODULE_TYPE_PLUGIN +
-                    MODULE_TYPE_FUNCTION_HANDLER +
-                    MODULE_TYPE_HOOKS +
-                    MODULE_TYPE_SIGNATURE_VALIDATOR +
-                    MODULE_TYPE_SIGNATURE_VALIDATOR_HOOKS,
+                encodeModuleTypes(["plugin", "function-handler", "hooks", "signature-validator", "signature-validator-hooks"]),
             );
 
         const [listedAt, flaggedAt] = await safeProtocolRegistry.check.staticCall(
@@ -89,9 +103,9 @@ describe("SafeProtocolRegistry", async () => {
         const { safeProtocolRegistry } = await setupTests();
         const mockHookAddress = (await getHooksWithPassingChecks()).target;
 
-        await expect(safeProtocolRegistry.connect(owner).addModule(mockHookAddress, 32))
+        await expect(safeProtocolRegistry.connect(owner).addModule(mockHookAddress, MAX_MODULE_TYPES + 1))
             .to.be.revertedWithCustomError(safeProtocolRegistry, "InvalidModuleType")
-            .withArgs(mockHookAddress, 32);
+            .withArgs(mockHookAddress, MAX_MODULE_TYPES + 1);
     });
 
     it("Should not allow non-owner to add a module", async () => {
@@ -141,6 +155,292 @@ describe("SafeProtocolRegistry", async () => {
             .withArgs(mockHookAddress);
     });
 
+    it("Should allow only owner to unflag a module", async () => {
+        const { safeProtocolRegistry } = await setupTests();
+        const mockHookAddress = (await getHooksWithPassingChecks()).target;
+        await safeProtocolRegistry.connect(owner).addModule(mockHookAddress, MODULE_TYPE_HOOKS);
+        await safeProtocolRegistry.connect(owner).flagModule(mockHookAddress);
+        const [listedAtBefore] = await safeProtocolRegistry.check.staticCall(mockHookAddress, numberToBytes32(MODULE_TYPE_HOOKS));
+
+        await expect(
+            safeProtocolRegistry.connect(user1).unflagModule(mockHookAddress, REGISTRY_REASON_FLAGGED_BY_MISTAKE),
+        ).to.be.revertedWith("Ownable: caller is not the owner");
+
+        await expect(safeProtocolRegistry.connect(owner).unflagModule(mockHookAddress, REGISTRY_REASON_FLAGGED_BY_MISTAKE))
+            .to.emit(safeProtocolRegistry, "ModuleUnflagged")
+            .withArgs(mockHookAddress, REGISTRY_REASON_FLAGGED_BY_MISTAKE);
+
+        const [listedAt, flaggedAt] = await safeProtocolRegistry.check.staticCall(mockHookAddress, numberToBytes32(MODULE_TYPE_HOOKS));
+        expect(listedAt).to.be.equal(listedAtBefore);
+        expect(flaggedAt).to.be.equal(0);
+        expect((await safeProtocolRegistry.listedModules(mockHookAddress)).moduleTypes).to.be.equal(MODULE_TYPE_HOOKS);
+    });
+
+    it("Should allow to flag a module again after unflagging it", async () => {
+        const { safeProtocolRegistry } = await setupTests();
+        const mockHookAddress = (await getHooksWithPassingChecks()).target;
+        await safeProtocolRegistry.connect(owner).addModule(mockHookAddress, MODULE_TYPE_HOOKS);
+        await safeProtocolRegistry.connect(owner).flagModule(mockHookAddress);
+        await safeProtocolRegistry.connect(owner).unflagModule(mockHookAddress, REGISTRY_REASON_FLAGGED_BY_MISTAKE);
+
+        await expect(safeProtocolRegistry.connect(owner).flagModule(mockHookAddress)).to.emit(safeProtocolRegistry, "ModuleFlagged");
+
+        const [, flaggedAt] = await safeProtocolRegistry.check.staticCall(mockHookAddress, numberToBytes32(MODULE_TYPE_HOOKS));
+        expect(flaggedAt).to.be.gt(0);
+    });
+
+    it("Should not allow to unflag a module that is not flagged", async () => {
+        const { safeProtocolRegistry } = await setupTests();
+        const mockHookAddress = (await getHooksWithPassingChecks()).target;
+
+        await expect(safeProtocolRegistry.connect(owner).unflagModule(mockHookAddress, REGISTRY_REASON_FLAGGED_BY_MISTAKE))
+            .to.be.revertedWithCustomError(safeProtocolRegistry, "CannotUnflagModule")
+            .withArgs(mockHookAddress);
+
+        await safeProtocolRegistry.connect(owner).addModule(mockHookAddress, MODULE_TYPE_HOOKS);
+        await expect(safeProtocolRegistry.connect(owner).unflagModule(mockHookAddress, REGISTRY_REASON_FLAGGED_BY_MISTAKE))
+            .to.be.revertedWithCustomError(safeProtocolRegistry, "CannotUnflagModule")
+            .withArgs(mockHookAddress);
+    });
+
+    it("Should allow only owner to delist a module", async () => {
+        const { safeProtocolRegistry } = await setupTests();
+        const mockHookAddress = (await getHooksWithPassingChecks()).target;
+        await safeProtocolRegistry.connect(owner).addModule(mockHookAddress, MODULE_TYPE_HOOKS);
+
+        await expect(safeProtocolRegistry.connect(user1).delistModule(mockHookAddress, REGISTRY_REASON_DEPRECATED)).to.be.revertedWith(
+            "Ownable: caller is not the owner",
+        );
+
+        await expect(safeProtocolRegistry.connect(owner).delistModule(mockHookAddress, REGISTRY_REASON_DEPRECATED))
+            .to.emit(safeProtocolRegistry, "ModuleDelisted")
+            .withArgs(mockHookAddress, REGISTRY_REASON_DEPRECATED);
+
+        const [listedAt, flaggedAt] = await safeProtocolRegistry.check.staticCall(mockHookAddress, numberToBytes32(MODULE_TYPE_HOOKS));
+        expect(listedAt).to.be.equal(0);
+        expect(flaggedAt).to.be.equal(0);
+    });
+
+    it("Should allow to delist a flagged module and add it again", async () => {
+        const { safeProtocolRegistry } = await setupTests();
+        const mockHookAddress = (await getHooksWithPassingChecks()).target;
+        await safeProtocolRegistry.connect(owner).addModule(mockHookAddress, MODULE_TYPE_HOOKS);
+        await safeProtocolRegistry.connect(owner).flagModule(mockHookAddress);
+
+        await safeProtocolRegistry.connect(owner).delistModule(mockHookAddress, REGISTRY_REASON_DEPRECATED);
+        await safeProtocolRegistry.connect(owner).addModule(mockHookAddress, MODULE_TYPE_HOOKS);
+
+        const [listedAt, flaggedAt] = await safeProtocolRegistry.check.staticCall(mockHookAddress, numberToBytes32(MODULE_TYPE_HOOKS));
+        expect(listedAt).to.be.gt(0);
+        expect(flaggedAt).to.be.equal(0);
+    });
+
+    it("Should not allow to delist a non-listed module", async () => {
+        const { safeProtocolRegistry } = await setupTests();
+        await expect(safeProtocolRegistry.connect(owner).delistModule(AddressZero, REGISTRY_REASON_DEPRECATED))
+            .to.be.revertedWithCustomError(safeProtocolRegistry, "CannotDelistModule")
+            .withArgs(AddressZero);
+    });
+
+    it("Should allow only owner to add module types to a listed module", async () => {
+        const { safeProtocolRegistry } = await setupTests();
+        const mockModule = await (await hre.ethers.getContractFactory("MockContract")).deploy();
+        await mockModule.givenMethodReturnBool("0x01ffc9a7", true);
+        await safeProtocolRegistry.connect(owner).addModule(mockModule, MODULE_TYPE_PLUGIN);
+        const [pluginListedAt] = await safeProtocolRegistry.check.staticCall(mockModule.target, numberToBytes32(MODULE_TYPE_PLUGIN));
+
+        await expect(safeProtocolRegistry.connect(user1).updateModuleTypes(mockModule, MODULE_TYPE_FUNCTION_HANDLER)).to.be.revertedWith(
+            "Ownable: caller is not the owner",
+        );
+
+        const addedTypes = encodeModuleTypes(["function-handler", "hooks"]);
+        await expect(safeProtocolRegistry.connect(owner).updateModuleTypes(mockModule, addedTypes))
+            .to.emit(safeProtocolRegistry, "ModuleTypesUpdated")
+            .withArgs(mockModule.target, addedTypes, addedTypes | MODULE_TYPE_PLUGIN)
+            .and.to.emit(safeProtocolRegistry, "ModuleListed")
+            .withArgs(mockModule.target, MODULE_TYPE_FUNCTION_HANDLER)
+            .and.to.emit(safeProtocolRegistry, "ModuleListed")
+            .withArgs(mockModule.target, MODULE_TYPE_HOOKS);
+
+        const [listedAt, flaggedAt] = await safeProtocolRegistry.check.staticCall(mockModule.target, numberToBytes32(MODULE_TYPE_PLUGIN));
+        expect(listedAt).to.be.equal(pluginListedAt);
+        expect(flaggedAt).to.be.equal(0);
+
+        const [handlerListedAt, handlerFlaggedAt] = await safeProtocolRegistry.check.staticCall(
+            mockModule.target,
+            numberToBytes32(MODULE_TYPE_FUNCTION_HANDLER),
+        );
+        expect(handlerListedAt).to.be.greaterThan(pluginListedAt);
+        expect(handlerFlaggedAt).to.be.equal(0);
+
+        const [hooksListedAt] = await safeProtocolRegistry.check.staticCall(mockModule.target, numberToBytes32(MODULE_TYPE_HOOKS));
+        expect(hooksListedAt).to.be.equal(handlerListedAt);
+
+        const [validatorListedAt] = await safeProtocolRegistry.check.staticCall(
+            mockModule.target,
+            numberToBytes32(MODULE_TYPE_SIGNATURE_VALIDATOR),
+        );
+        expect(validatorListedAt).to.be.equal(0);
+    });
+
+    it("Should not allow to add module types that are invalid or already listed", async () => {
+        const { safeProtocolRegistry } = await setupTests();
+        const mockHookAddress = (await getHooksWithPassingChecks()).target;
+        await safeProtocolRegistry.connect(owner).addModule(mockHookAddress, MODULE_TYPE_HOOKS);
+
+        for (const addedTypes of [0, MODULE_TYPE_HOOKS, MODULE_TYPE_HOOKS | MODULE_TYPE_PLUGIN, MAX_MODULE_TYPES + 1]) {
+            await expect(safeProtocolRegistry.connect(owner).updateModuleTypes(mockHookAddress, addedTypes))
+                .to.be.revertedWithCustomError(safeProtocolRegistry, "InvalidModuleType")
+                .withArgs(mockHookAddress, addedTypes);
+        }
+    });
+
+    it("Should not allow to add module types to a non-listed or flagged module", async () => {
+        const { safeProtocolRegistry } = await setupTests();
+        const mockHookAddress = (await getHooksWithPassingChecks()).target;
+
+        await expect(safeProtocolRegistry.connect(owner).updateModuleTypes(mockHookAddress, MODULE_TYPE_PLUGIN))
+            .to.be.revertedWithCustomError(safeProtocolRegistry, "CannotUpdateModuleTypes")
+            .withArgs(mockHookAddress);
+
+        await safeProtocolRegistry.connect(owner).addModule(mockHookAddress, MODULE_TYPE_HOOKS);
+        await safeProtocolRegistry.connect(owner).flagModule(mockHookAddress);
+        await expect(safeProtocolRegistry.connect(owner).updateModuleTypes(mockHookAddress, MODULE_TYPE_PLUGIN))
+            .to.be.revertedWithCustomError(safeProtocolRegistry, "CannotUpdateModuleTypes")
+            .withArgs(mockHookAddress);
+    });
+
+    it("Should revert when adding a module type not supported by the module", async () => {
+        const { safeProtocolRegistry } = await setupTests();
+        const plugin = await (await hre.ethers.getContractFactory("TestPlugin")).deploy();
+        await safeProtocolRegistry.connect(owner).addModule(plugin, MODULE_TYPE_PLUGIN);
+
+        await expect(safeProtocolRegistry.connect(owner).updateModuleTypes(plugin, MODULE_TYPE_FUNCTION_HANDLER))
+            .to.be.revertedWithCustomError(safeProtocolRegistry, "ModuleDoesNotSupportExpectedInterfaceId")
+            .withArgs(plugin.target, "0xf601ad15");
+    });
+
+    it("Should reset the listing of added module types when delisting a module", async () => {
+        const { safeProtocolRegistry } = await setupTests();
+        const mockModule = await (await hre.ethers.getContractFactory("MockContract")).deploy();
+        await mockModule.givenMethodReturnBool("0x01ffc9a7", true);
+        await safeProtocolRegistry.connect(owner).addModule(mockModule, MODULE_TYPE_PLUGIN);
+        await safeProtocolRegistry.connect(owner).updateModuleTypes(mockModule, MODULE_TYPE_FUNCTION_HANDLER);
+
+        await safeProtocolRegistry.connect(owner).delistModule(mockModule, REGISTRY_REASON_DEPRECATED);
+        await safeProtocolRegistry.connect(owner).addModule(mockModule, MODULE_TYPE_PLUGIN | MODULE_TYPE_FUNCTION_HANDLER);
+
+        const [pluginListedAt] = await safeProtocolRegistry.check.staticCall(mockModule.target, numberToBytes32(MODULE_TYPE_PLUGIN));
+        const [handlerListedAt] = await safeProtocolRegistry.check.staticCall(
+            mockModule.target,
+            numberToBytes32(MODULE_TYPE_FUNCTION_HANDLER),
+        );
+        expect(handlerListedAt).to.be.equal(pluginListedAt);
+        expect(await safeProtocolRegistry.moduleTypeListedAt(mockModule, MODULE_TYPE_FUNCTION_HANDLER)).to.be.equal(0);
+    });
+
+    it("Should enumerate listed modules per module type", async () => {
+        const { safeProtocolRegistry } = await setupTests();
+        const hooks = [];
+        for (let i = 0; i < 3; i++) {
+            hooks.push((await getHooksWithPassingChecks()).target);
+            await safeProtocolRegistry.connect(owner).addModule(hooks[i], MODULE_TYPE_HOOKS);
+        }
+        const plugin = await (await hre.ethers.getContractFactory("TestPlugin")).deploy();
+        await safeProtocolRegistry.connect(owner).addModule(plugin, MODULE_TYPE_PLUGIN);
+
+        expect(await safeProtocolRegistry.getModulesPaginated(MODULE_TYPE_HOOKS, SENTINEL_MODULES, 2)).to.be.deep.equal([
+            [hooks[2], hooks[1]],
+            hooks[1],
+        ]);
+        expect(await safeProtocolRegistry.getModulesPaginated(MODULE_TYPE_HOOKS, hooks[1], 2)).to.be.deep.equal([
+            [hooks[0]],
+            SENTINEL_MODULES,
+        ]);
+        expect(await safeProtocolRegistry.getModulesPaginated(MODULE_TYPE_PLUGIN, SENTINEL_MODULES, 10)).to.be.deep.equal([
+            [plugin.target],
+            SENTINEL_MODULES,
+        ]);
+        expect(await safeProtocolRegistry.getModulesPaginated(MODULE_TYPE_FUNCTION_HANDLER, SENTINEL_MODULES, 10)).to.be.deep.equal([
+            [],
+            SENTINEL_MODULES,
+        ]);
+    });
+
+    it("Should keep the module lists in sync when updating module types and delisting modules", async () => {
+        const { safeProtocolRegistry } = await setupTests();
+        const mockModule = await (await hre.ethers.getContractFactory("MockContract")).deploy();
+        await mockModule.givenMethodReturnBool("0x01ffc9a7", true);
+        const mockHookAddress = (await getHooksWithPassingChecks()).target;
+        await safeProtocolRegistry.connect(owner).addModule(mockModule, MODULE_TYPE_PLUGIN);
+        await safeProtocolRegistry.connect(owner).addModule(mockHookAddress, MODULE_TYPE_HOOKS);
+        await safeProtocolRegistry.connect(owner).updateModuleTypes(mockModule, MODULE_TYPE_HOOKS);
+
+        expect((await safeProtocolRegistry.getModulesPaginated(MODULE_TYPE_HOOKS, SENTINEL_MODULES, 10))[0]).to.be.deep.equal([
+            mockModule.target,
+            mockHookAddress,
+        ]);
+
+        await safeProtocolRegistry.connect(owner).delistModule(mockModule, REGISTRY_REASON_DEPRECATED);
+        expect((await safeProtocolRegistry.getModulesPaginated(MODULE_TYPE_HOOKS, SENTINEL_MODULES, 10))[0]).to.be.deep.equal([
+            mockHookAddress,
+        ]);
+        expect((await safeProtocolRegistry.getModulesPaginated(MODULE_TYPE_PLUGIN, SENTINEL_MODULES, 10))[0]).to.be.deep.equal([]);
+
+        await safeProtocolRegistry.connect(owner).delistModule(mockHookAddress, REGISTRY_REASON_DEPRECATED);
+        await safeProtocolRegistry.connect(owner).addModule(mockModule, MODULE_TYPE_HOOKS);
+        expect((await safeProtocolRegistry.getModulesPaginated(MODULE_TYPE_HOOKS, SENTINEL_MODULES, 10))[0]).to.be.deep.equal([
+            mockModule.target,
+        ]);
+    });
+
+    it("Should not allow paginating with an invalid start or page size", async () => {
+        const { safeProtocolRegistry } = await setupTests();
+        const mockHookAddress = (await getHooksWithPassingChecks()).target;
+        await safeProtocolRegistry.connect(owner).addModule(mockHookAddress, MODULE_TYPE_HOOKS);
+
+        await expect(safeProtocolRegistry.getModulesPaginated(MODULE_TYPE_HOOKS, SENTINEL_MODULES, 0)).to.be.revertedWithCustomError(
+            safeProtocolRegistry,
+            "ZeroPageSizeNotAllowed",
+        );
+        for (const start of [AddressZero, user1.address]) {
+            await expect(safeProtocolRegistry.getModulesPaginated(MODULE_TYPE_HOOKS, start, 10))
+                .to.be.revertedWithCustomError(safeProtocolRegistry, "InvalidModuleAddress")
+                .withArgs(start);
+        }
+        await expect(safeProtocolRegistry.getModulesPaginated(MODULE_TYPE_PLUGIN, mockHookAddress, 10))
+            .to.be.revertedWithCustomError(safeProtocolRegistry, "InvalidModuleAddress")
+            .withArgs(mockHookAddress);
+    });
+
+    it("Should allow only owner to set the metadata of a listed module", async () => {
+        const { safeProtocolRegistry } = await setupTests();
+        const mockHookAddress = (await getHooksWithPassingChecks()).target;
+        const metadata = hre.ethers.id("audit report");
+
+        await expect(safeProtocolRegistry.connect(owner).setModuleMetadata(mockHookAddress, metadata))
+            .to.be.revertedWithCustomError(safeProtocolRegistry, "CannotSetModuleMetadata")
+            .withArgs(mockHookAddress);
+
+        await safeProtocolRegistry.connect(owner).addModule(mockHookAddress, MODULE_TYPE_HOOKS);
+        await expect(safeProtocolRegistry.connect(user1).setModuleMetadata(mockHookAddress, metadata)).to.be.revertedWith(
+            "Ownable: caller is not the owner",
+        );
+        await expect(safeProtocolRegistry.connect(owner).setModuleMetadata(mockHookAddress, metadata))
+            .to.emit(safeProtocolRegistry, "ModuleMetadataChanged")
+            .withArgs(mockHookAddress, metadata);
+        await safeProtocolRegistry.connect(owner).flagModule(mockHookAddress);
+
+        const [listedAt, flaggedAt, moduleTypes, moduleMetadata] = await safeProtocolRegistry.getModuleInfo(mockHookAddress);
+        expect(listedAt).to.be.gt(0);
+        expect(flaggedAt).to.be.gt(listedAt);
+        expect(moduleTypes).to.be.equal(MODULE_TYPE_HOOKS);
+        expect(moduleMetadata).to.be.equal(metadata);
+
+        await safeProtocolRegistry.connect(owner).delistModule(mockHookAddress, REGISTRY_REASON_DEPRECATED);
+        expect(await safeProtocolRegistry.getModuleInfo(mockHookAddress)).to.be.deep.equal([0, 0, 0, hre.ethers.ZeroHash]);
+    });
+
     it("Should return (0,0,0) for non-listed module", async () => {
         const { safeProtocolRegistry } = await setupTests();
 
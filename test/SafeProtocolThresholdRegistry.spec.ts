@@ -0,0 +1,327 @@
+import hre, { ethers, deployments } from "hardhat";
+import { expect } from "chai";
+import { time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
+import {
+    MODULE_TYPE_FUNCTION_HANDLER,
+    MODULE_TYPE_HOOKS,
+    MODULE_TYPE_PLUGIN,
+    PLUGIN_PERMISSION_EXECUTE_CALL,
+} from "../src/utils/constants";
+import { encodeModuleTypes, MAX_MODULE_TYPES } from "../src/utils/bitmask";
+import { buildSingleTx } from "./utils/builder";
+import { getInstance } from "./utils/contracts";
+import { SafeProtocolThresholdRegistry } from "../typechain-types";
+
+describe("SafeProtocolThresholdRegistry", async () => {
+    const DELAY = 24 * 60 * 60;
+    let owner: SignerWithAddress, attester1: SignerWithAddress, attester2: SignerWithAddress, attester3: SignerWithAddress;
+    let user1: SignerWithAddress;
+
+    before(async () => {
+        [, owner, attester1, attester2, attester3, user1] = await ethers.getSigners();
+    });
+
+    const setupTests = deployments.createFixture(async ({ deployments }) => {
+        await deployments.fixture();
+        const registry = await ethers.deployContract("SafeProtocolThresholdRegistry", [
+            owner.address,
+            [attester1.address, attester2.address, attester3.address],
+            2,
+            DELAY,
+        ]);
+        const plugin = await (await ethers.getContractFactory("TestPlugin")).deploy();
+        return { registry, plugin };
+    });
+
+    // A helper function to convert a number to a bytes32 value
+    const numberToBytes32 = (value: number) => hre.ethers.zeroPadValue(hre.ethers.toBeHex(value), 32);
+
+    const scheduleAndExecute = async (registry: SafeProtocolThresholdRegistry, add: string[], remove: string[], threshold: number) => {
+        await registry.connect(owner).scheduleAttesterChange(add, remove, threshold);
+        await time.increase(DELAY);
+        await registry.executeAttesterChange();
+    };
+
+    // Runs the deploy script of the threshold registry with the given environment variables.
+    const deployWithEnv = async (env: Record<string, string>) => {
+        Object.assign(process.env, env);
+        try {
+            // Fixtures are cached by their tags, so the deploy script is run directly.
+            await deployments.run(["threshold-registry"]);
+        } finally {
+            Object.keys(env).forEach((name) => delete process.env[name]);
+        }
+    };
+
+    it("Should only be deployed by the deploy script if attesters are configured", async () => {
+        await deployments.fixture(["threshold-registry"]);
+
+        expect(await deployments.getOrNull("SafeProtocolThresholdRegistry")).to.be.undefined;
+    });
+
+    it("Should reject an invalid threshold or delay in the deploy script", async () => {
+        const { owner: ownerAddress } = await hre.getNamedAccounts();
+
+        await expect(
+            deployWithEnv({ SAFE_CORE_PROTOCOL_ATTESTERS: ownerAddress, SAFE_CORE_PROTOCOL_ATTESTER_THRESHOLD: "0" }),
+        ).to.be.rejectedWith('SAFE_CORE_PROTOCOL_ATTESTER_THRESHOLD has to be an integer of at least 1, got "0"');
+        await expect(
+            deployWithEnv({ SAFE_CORE_PROTOCOL_ATTESTERS: ownerAddress, SAFE_CORE_PROTOCOL_ATTESTER_CHANGE_DELAY: "2d" }),
+        ).to.be.rejectedWith('SAFE_CORE_PROTOCOL_ATTESTER_CHANGE_DELAY has to be an integer of at least 0, got "2d"');
+    });
+
+    it("Should be deployed with the attesters of the deploy script", async () => {
+        const { owner: ownerAddress } = await hre.getNamedAccounts();
+        await deployWithEnv({ SAFE_CORE_PROTOCOL_ATTESTERS: ownerAddress });
+        const registry = await getInstance<SafeProtocolThresholdRegistry>(
+            "SafeProtocolThresholdRegistry",
+            (
+                await deployments.get("SafeProtocolThresholdRegistry")
+            ).address,
+        );
+
+        expect(await registry.owner()).to.be.equal(ownerAddress);
+        expect(await registry.getAttesters()).to.be.deep.equal([ownerAddress]);
+        expect(await registry.threshold()).to.be.equal(1);
+        expect(await registry.delay()).to.be.equal(2 * 24 * 60 * 60);
+    });
+
+    it("Should not allow deploying with an invalid threshold or attesters", async () => {
+        const factory = await ethers.getContractFactory("SafeProtocolThresholdRegistry");
+        await expect(ethers.deployContract("SafeProtocolThresholdRegistry", [owner.address, [attester1.address], 2, DELAY]))
+            .to.be.revertedWithCustomError(factory, "InvalidThreshold")
+            .withArgs(2, 1);
+        await expect(ethers.deployContract("SafeProtocolThresholdRegistry", [owner.address, [attester1.address], 0, DELAY]))
+            .to.be.revertedWithCustomError(factory, "InvalidThreshold")
+            .withArgs(0, 1);
+        await expect(
+            ethers.deployContract("SafeProtocolThresholdRegistry", [owner.address, [attester1.address, attester1.address], 1, DELAY]),
+        )
+            .to.be.revertedWithCustomError(factory, "InvalidAttester")
+            .withArgs(attester1.address);
+    });
+
+    it("Should list a module type only once the threshold is reached", async () => {
+        const { registry, plugin } = await setupTests();
+
+        await expect(registry.connect(attester1).attest(plugin, MODULE_TYPE_PLUGIN))
+            .to.emit(registry, "ModuleAttested")
+            .withArgs(plugin.target, attester1.address, MODULE_TYPE_PLUGIN)
+            .not.to.emit(registry, "ModuleListed");
+        const [listedAtBefore] = await registry.check(plugin, numberToBytes32(MODULE_TYPE_PLUGIN));
+        expect(listedAtBefore).to.be.equal(0);
+
+        await expect(registry.connect(attester2).attest(plugin, MODULE_TYPE_PLUGIN))
+            .to.emit(registry, "ModuleListed")
+            .withArgs(plugin.target, MODULE_TYPE_PLUGIN);
+        const [listedAt, flaggedAt] = await registry.check(plugin, numberToBytes32(MODULE_TYPE_PLUGIN));
+        expect(listedAt).to.be.equal(await time.latest());
+        expect(flaggedAt).to.be.equal(0);
+
+        // Further attestations do not change the listing timestamp.
+        await registry.connect(attester3).attest(plugin, MODULE_TYPE_PLUGIN);
+        expect((await registry.check(plugin, numberToBytes32(MODULE_TYPE_PLUGIN)))[0]).to.be.equal(listedAt);
+        expect(await registry.countAttestations(plugin, MODULE_TYPE_PLUGIN)).to.be.equal(3);
+    });
+
+    it("Should count attestations per module type", async () => {
+        const { registry } = await setupTests();
+        const mockModule = await (await hre.ethers.getContractFactory("MockContract")).deploy();
+        await mockModule.givenMethodReturnBool("0x01ffc9a7", true);
+
+        await registry.connect(attester1).attest(mockModule, encodeModuleTypes(["plugin", "hooks"]));
+        await registry.connect(attester2).attest(mockModule, MODULE_TYPE_HOOKS);
+
+        expect((await registry.check(mockModule, numberToBytes32(MODULE_TYPE_HOOKS)))[0]).to.be.gt(0);
+        expect((await registry.check(mockModule, numberToBytes32(MODULE_TYPE_PLUGIN)))[0]).to.be.equal(0);
+        expect((await registry.check(mockModule, numberToBytes32(MODULE_TYPE_FUNCTION_HANDLER)))[0]).to.be.equal(0);
+    });
+
+    it("Should only allow attesters to attest once with valid module types", async () => {
+        const { registry, plugin } = await setupTests();
+
+        await expect(registry.connect(user1).attest(plugin, MODULE_TYPE_PLUGIN))
+            .to.be.revertedWithCustomError(registry, "NotAnAttester")
+            .withArgs(user1.address);
+
+        await registry.connect(attester1).attest(plugin, MODULE_TYPE_PLUGIN);
+        await expect(registry.connect(attester1).attest(plugin, MODULE_TYPE_PLUGIN))
+            .to.be.revertedWithCustomError(registry, "ModuleAlreadyAttested")
+            .withArgs(plugin.target, MODULE_TYPE_PLUGIN, attester1.address);
+
+        for (const moduleTypes of [0, MAX_MODULE_TYPES + 1]) {
+            await expect(registry.connect(attester2).attest(plugin, moduleTypes))
+                .to.be.revertedWithCustomError(registry, "InvalidModuleType")
+                .withArgs(plugin.target, moduleTypes);
+        }
+
+        await expect(registry.connect(attester2).attest(plugin, MODULE_TYPE_FUNCTION_HANDLER))
+            .to.be.revertedWithCustomError(registry, "ModuleDoesNotSupportExpectedInterfaceId")
+            .withArgs(plugin.target, "0xf601ad15");
+    });
+
+    it("Should allow any attester to flag a module with immediate effect", async () => {
+        const { registry, plugin } = await setupTests();
+        await registry.connect(attester1).attest(plugin, MODULE_TYPE_PLUGIN);
+        await registry.connect(attester2).attest(plugin, MODULE_TYPE_PLUGIN);
+
+        await expect(registry.connect(user1).flagModule(plugin))
+            .to.be.revertedWithCustomError(registry, "NotAnAttester")
+            .withArgs(user1.address);
+
+        await expect(registry.connect(attester3).flagModule(plugin))
+            .to.emit(registry, "ModuleFlagged")
+            .withArgs(plugin.target, attester3.address);
+        const [listedAt, flaggedAt] = await registry.check(plugin, numberToBytes32(MODULE_TYPE_PLUGIN));
+        expect(listedAt).to.be.gt(0);
+        expect(flaggedAt).to.be.equal(await time.latest());
+
+        await expect(registry.connect(attester1).flagModule(plugin))
+            .to.be.revertedWithCustomError(registry, "ModuleAlreadyFlagged")
+            .withArgs(plugin.target);
+        await expect(registry.connect(attester3).attest(plugin, MODULE_TYPE_PLUGIN))
+            .to.be.revertedWithCustomError(registry, "ModuleAlreadyFlagged")
+            .withArgs(plugin.target);
+    });
+
+    it("Should only execute a change of the attesters after the delay", async () => {
+        const { registry } = await setupTests();
+
+        await expect(registry.connect(user1).scheduleAttesterChange([user1.address], [], 2)).to.be.revertedWith(
+            "Ownable: caller is not the owner",
+        );
+
+        await expect(registry.connect(owner).scheduleAttesterChange([user1.address], [attester3.address], 3))
+            .to.emit(registry, "AttesterChangeScheduled")
+            .withArgs([user1.address], [attester3.address], 3, (await time.latest()) + 1 + DELAY);
+        const pending = await registry.getPendingAttesterChange();
+        expect(pending.attestersToAdd).to.be.deep.equal([user1.address]);
+
+        await expect(registry.connect(owner).scheduleAttesterChange([], [], 1))
+            .to.be.revertedWithCustomError(registry, "AttesterChangeAlreadyScheduled")
+            .withArgs(pending.executableAt);
+        await expect(registry.executeAttesterChange())
+            .to.be.revertedWithCustomError(registry, "AttesterChangeNotExecutable")
+            .withArgs(pending.executableAt);
+
+        await time.increaseTo(pending.executableAt);
+        await expect(registry.connect(user1).executeAttesterChange())
+            .to.emit(registry, "AttesterRemoved")
+            .withArgs(attester3.address)
+            .to.emit(registry, "AttesterAdded")
+            .withArgs(user1.address)
+            .to.emit(registry, "ThresholdChanged")
+            .withArgs(3);
+
+        expect(await registry.getAttesters()).to.be.deep.equal([attester1.address, attester2.address, user1.address]);
+        expect(await registry.threshold()).to.be.equal(3);
+        await expect(registry.executeAttesterChange()).to.be.revertedWithCustomError(registry, "NoAttesterChangeScheduled");
+    });
+
+    it("Should allow only owner to cancel a scheduled change of the attesters", async () => {
+        const { registry } = await setupTests();
+        await expect(registry.connect(owner).cancelAttesterChange()).to.be.revertedWithCustomError(registry, "NoAttesterChangeScheduled");
+
+        await registry.connect(owner).scheduleAttesterChange([], [attester3.address], 1);
+        await expect(registry.connect(user1).cancelAttesterChange()).to.be.revertedWith("Ownable: caller is not the owner");
+        await expect(registry.connect(owner).cancelAttesterChange()).to.emit(registry, "AttesterChangeCancelled");
+
+        await time.increase(DELAY);
+        await expect(registry.executeAttesterChange()).to.be.revertedWithCustomError(registry, "NoAttesterChangeScheduled");
+        expect(await registry.isAttester(attester3)).to.be.true;
+    });
+
+    it("Should not allow to schedule an invalid change of the attesters", async () => {
+        const { registry } = await setupTests();
+
+        await expect(registry.connect(owner).scheduleAttesterChange([attester1.address], [], 2))
+            .to.be.revertedWithCustomError(registry, "InvalidAttester")
+            .withArgs(attester1.address);
+        await expect(registry.connect(owner).scheduleAttesterChange([], [user1.address], 2))
+            .to.be.revertedWithCustomError(registry, "NotAnAttester")
+            .withArgs(user1.address);
+        await expect(registry.connect(owner).scheduleAttesterChange([], [attester3.address], 3))
+            .to.be.revertedWithCustomError(registry, "InvalidThreshold")
+            .withArgs(3, 2);
+        await expect(registry.connect(owner).scheduleAttesterChange([user1.address], [], 0))
+            .to.be.revertedWithCustomError(registry, "InvalidThreshold")
+            .withArgs(0, 4);
+    });
+
+    it("Should not allow to schedule a change with duplicate attesters", async () => {
+        const { registry } = await setupTests();
+
+        await expect(registry.connect(owner).scheduleAttesterChange([user1.address, user1.address], [], 2))
+            .to.be.revertedWithCustomError(registry, "InvalidAttester")
+            .withArgs(user1.address);
+        await expect(registry.connect(owner).scheduleAttesterChange([], [attester1.address, attester2.address, attester1.address], 1))
+            .to.be.revertedWithCustomError(registry, "NotAnAttester")
+            .withArgs(attester1.address);
+        // Removing every attester twice would underflow the attester count if duplicates were not detected.
+        await expect(
+            registry
+                .connect(owner)
+                .scheduleAttesterChange([], [attester1.address, attester2.address, attester3.address, attester3.address], 1),
+        )
+            .to.be.revertedWithCustomError(registry, "NotAnAttester")
+            .withArgs(attester3.address);
+    });
+
+    it("Should not count attestations of removed attesters", async () => {
+        const { registry, plugin } = await setupTests();
+        await registry.connect(attester1).attest(plugin, MODULE_TYPE_PLUGIN);
+        await registry.connect(attester3).attest(plugin, MODULE_TYPE_PLUGIN);
+        expect((await registry.check(plugin, numberToBytes32(MODULE_TYPE_PLUGIN)))[0]).to.be.gt(0);
+
+        await scheduleAndExecute(registry, [], [attester3.address], 2);
+        expect((await registry.check(plugin, numberToBytes32(MODULE_TYPE_PLUGIN)))[0]).to.be.equal(0);
+        await expect(registry.connect(attester3).flagModule(plugin)).to.be.revertedWithCustomError(registry, "NotAnAttester");
+
+        // Attestations made before the removal do not count after the attester is added again.
+        await scheduleAndExecute(registry, [attester3.address], [], 2);
+        expect(await registry.countAttestations(plugin, MODULE_TYPE_PLUGIN)).to.be.equal(1);
+
+        await registry.connect(attester3).attest(plugin, MODULE_TYPE_PLUGIN);
+        expect((await registry.check(plugin, numberToBytes32(MODULE_TYPE_PLUGIN)))[0]).to.be.equal(await time.latest());
+    });
+
+    it("Should list a module type from the change of the attesters that reached the threshold", async () => {
+        const { registry, plugin } = await setupTests();
+        await registry.connect(attester1).attest(plugin, MODULE_TYPE_PLUGIN);
+
+        await scheduleAndExecute(registry, [], [], 1);
+
+        const [listedAt] = await registry.check(plugin, numberToBytes32(MODULE_TYPE_PLUGIN));
+        expect(listedAt).to.be.equal(await time.latest());
+        expect(await registry.attestersChangedAt()).to.be.equal(listedAt);
+    });
+
+    it("Should permit modules in the manager once the threshold is reached", async () => {
+        const { registry, plugin } = await setupTests();
+        const manager = await ethers.deployContract("SafeProtocolManager", [owner.address, registry.target]);
+        const account = await ethers.deployContract("TestExecutor", [manager.target]);
+        await account.setModule(manager);
+        const enablePlugin = manager.interface.encodeFunctionData("enablePlugin", [plugin.target, PLUGIN_PERMISSION_EXECUTE_CALL]);
+
+        await registry.connect(attester1).attest(plugin, MODULE_TYPE_PLUGIN);
+        await expect(account.exec(account.target, 0, enablePlugin))
+            .to.be.revertedWithCustomError(manager, "ModuleNotPermitted")
+            .withArgs(plugin.target, 0, 0, MODULE_TYPE_PLUGIN);
+
+        await registry.connect(attester2).attest(plugin, MODULE_TYPE_PLUGIN);
+        await account.exec(account.target, 0, enablePlugin);
+        expect(await manager.isPluginEnabled(account, plugin)).to.be.true;
+
+        await registry.connect(attester3).flagModule(plugin);
+        const safeTx = buildSingleTx(user1.address, 0n, "0x", 1n, hre.ethers.randomBytes(32));
+        await expect(plugin.executeFromPlugin(manager, account, safeTx)).to.be.revertedWithCustomError(manager, "ModuleNotPermitted");
+    });
+
+    it("Should return true when valid interfaceId is passed", async () => {
+        const { registry } = await setupTests();
+        expect(await registry.supportsInterface.staticCall("0x01ffc9a7")).to.be.true;
+        expect(await registry.supportsInterface.staticCall("0x253bd7b7")).to.be.true;
+        expect(await registry.supportsInterface.staticCall("0xffffffff")).to.be.false;
+    });
+});
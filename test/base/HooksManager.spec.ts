@@ -4,6 +4,7 @@ import { SignerWithAddress } from "@nomicfoundation/hardhat-ethers/signers";
 import { getHooksWithPassingChecks } from "../utils/mockHooksBuilder";
 import { ZeroAddress } from "ethers";
 import { MODULE_TYPE_HOOKS } from "../../src/utils/constants";
+import { decodeAccountCall, encodeAccountCall } from "../../src/utils/accountCall";
 
 describe("HooksManager", async () => {
     let deployer: SignerWithAddress, user1: SignerWithAddress, owner: SignerWithAddress;
@@ -44,6 +45,26 @@ describe("HooksManager", async () => {
         expect(await hooksManager.getEnabledHooks(account.target)).to.be.equal(hooks.target);
     });
 
+    it("Should allow an account to set hooks directly with calldata from encodeAccountCall", async () => {
+        const { hooksManager, hooks, account } = await setupTests();
+        const calldata = encodeAccountCall(hooksManager, "setHooks", [hooks.target], await account.getAddress());
+
+        await account.exec(hooksManager.target, 0n, calldata);
+        expect(await hooksManager.getEnabledHooks(account.target)).to.be.equal(hooks.target);
+    });
+
+    it("Should decode the call and the sender from calldata created by encodeAccountCall", async () => {
+        const { hooksManager, hooks, account } = await setupTests();
+        const calldata = encodeAccountCall(hooksManager, "setHooks", [hooks.target], await account.getAddress());
+
+        const decoded = decodeAccountCall(calldata, hooksManager.interface);
+        expect(decoded.sender).to.be.equal(account.target);
+        expect(decoded.data).to.be.equal(hooksManager.interface.encodeFunctionData("setHooks", [hooks.target]));
+        expect(decoded.call?.name).to.be.equal("setHooks");
+        expect(decoded.call?.args[0]).to.be.equal(hooks.target);
+        expect(() => decodeAccountCall("0x1234")).to.throw("Calldata of 2 bytes is too short to contain a sender address");
+    });
+
     it("Should return zero address if hooks are not enabled", async () => {
         const { hooksManager } = await setupTests();
         expect(await hooksManager.getEnabledHooks(user1.address)).to.be.equal(hre.ethers.ZeroAddress);
@@ -0,0 +1,54 @@
+import hre from "hardhat";
+import { expect } from "chai";
+import deployments from "../deployments";
+import { getContract, getDeployment, listDeployedContracts, listSupportedChains } from "../src/deployments";
+
+describe("deployments", async () => {
+    const goerli = deployments["5"][0];
+
+    it("Should list the chains with deployments", async () => {
+        expect(listSupportedChains()).to.be.deep.equal([5]);
+    });
+
+    it("Should list the contracts deployed on a chain", async () => {
+        expect(listDeployedContracts(5)).to.be.deep.equal(Object.keys(goerli.contracts));
+    });
+
+    it("Should return the deployment of a contract", async () => {
+        const deployment = getDeployment(5n, "SafeProtocolRegistry");
+
+        expect(deployment).to.be.deep.equal({
+            chainId: 5,
+            network: "goerli",
+            name: "SafeProtocolRegistry",
+            address: goerli.contracts.SafeProtocolRegistry.address,
+            abi: goerli.contracts.SafeProtocolRegistry.abi,
+        });
+    });
+
+    it("Should return a typed contract instance connected to the runner", async () => {
+        const [signer] = await hre.ethers.getSigners();
+
+        const manager = getContract("5", "SafeProtocolManager", signer);
+
+        expect(manager.target).to.be.equal(goerli.contracts.SafeProtocolManager.address);
+        expect(manager.runner).to.be.equal(signer);
+        expect(manager.interface.getFunction("executeTransaction")).to.not.be.null;
+    });
+
+    it("Should throw for chains without deployments", async () => {
+        expect(() => getDeployment(1, "SafeProtocolRegistry")).to.throw("No deployments found for chainId 1. Supported chainIds: 5");
+        expect(() => listDeployedContracts(100)).to.throw("No deployments found for chainId 100");
+        expect(() => getContract(137, "SafeProtocolManager")).to.throw("No deployments found for chainId 137");
+    });
+
+    it("Should throw for contracts that are not deployed", async () => {
+        expect(() => getDeployment(5, "SignatureValidatorManager")).to.throw(
+            `Contract SignatureValidatorManager is not deployed on chainId 5. Deployed contracts: ${Object.keys(goerli.contracts).join(
+                ", ",
+            )}`,
+        );
+        expect(() => getContract(5, "SafeProtocolThresholdRegistry")).to.throw("Contract SafeProtocolThresholdRegistry is not deployed");
+        expect(() => getContract(5, "Unknown" as "SafeProtocolManager")).to.throw("Unknown contract Unknown. Known contracts:");
+    });
+});
@@ -0,0 +1,94 @@
+import hre, { deployments } from "hardhat";
+import { expect } from "chai";
+import { getSafeProtocolManager } from "../utils/contracts";
+import { deployAccountWithModules } from "../utils/accountWithModules";
+import { encodeAccountCall } from "../../src/utils/accountCall";
+
+describe("account:inspect", async () => {
+    const setupTests = deployments.createFixture(async ({ deployments }) => {
+        await deployments.fixture(["protocol"]);
+        const { registry, account, plugins, modules, domainSeparator } = await deployAccountWithModules();
+        return { registry, account: await account.getAddress(), modules: { plugin: plugins[0], ...modules }, domainSeparator };
+    });
+
+    it("Should report every module configured for the account", async () => {
+        const { account, modules, domainSeparator } = await setupTests();
+
+        const inspection = await hre.run("account:inspect", { account, json: true });
+
+        expect(inspection.account).to.be.equal(account);
+        expect(
+            inspection.modules.map(({ type, module, key, permissions, registryStatus }: Record<string, string>) => ({
+                type,
+                module,
+                key,
+                permissions,
+                registryStatus,
+            })),
+        ).to.be.deep.equal([
+            { type: "plugin", module: modules.plugin, key: undefined, permissions: "execute-call (1)", registryStatus: "permitted" },
+            { type: "hooks", module: modules.hooks, key: undefined, permissions: undefined, registryStatus: "permitted" },
+            {
+                type: "function-handler",
+                module: modules.functionHandler,
+                key: "0x12345678",
+                permissions: undefined,
+                registryStatus: "permitted",
+            },
+            {
+                type: "signature-validator",
+                module: modules.signatureValidator,
+                key: domainSeparator,
+                permissions: undefined,
+                registryStatus: "permitted",
+            },
+            {
+                type: "signature-validator-hooks",
+                module: modules.signatureValidatorHooks,
+                key: undefined,
+                permissions: undefined,
+                registryStatus: "permitted",
+            },
+        ]);
+    });
+
+    it("Should report the registry status of flagged modules", async () => {
+        const { registry, account, modules } = await setupTests();
+        await registry.flagModule(modules.hooks);
+
+        const inspection = await hre.run("account:inspect", { account });
+
+        const hooks = inspection.modules.find((module: { type: string }) => module.type === "hooks");
+        expect(hooks.registryStatus).to.be.equal("flagged");
+        expect(hooks.flaggedAt).to.be.greaterThan(0);
+    });
+
+    it("Should report modules flagged before they are listed as flagged", async () => {
+        const { account, modules } = await setupTests();
+        const { owner } = await hre.getNamedAccounts();
+        const [, , attester] = await hre.ethers.getSigners();
+        const manager = await getSafeProtocolManager();
+        const registry = await hre.ethers.deployContract("SafeProtocolThresholdRegistry", [owner, [attester.address], 1, 0]);
+        await registry.connect(attester).flagModule(modules.plugin);
+        const ownerSigner = await hre.ethers.getSigner(owner);
+        await ownerSigner.sendTransaction({ to: manager, data: encodeAccountCall(manager, "setRegistry", [registry.target], owner) });
+
+        const inspection = await hre.run("account:inspect", { account });
+
+        const [plugin, hooks] = inspection.modules;
+        expect(plugin).to.include({ type: "plugin", registryStatus: "flagged", listedAt: 0 });
+        expect(plugin.flaggedAt).to.be.greaterThan(0);
+        expect(hooks).to.include({ type: "hooks", registryStatus: "not-listed", flaggedAt: 0 });
+    });
+
+    it("Should not report modules that were removed", async () => {
+        const { account } = await setupTests();
+        const manager = await getSafeProtocolManager();
+        const executor = await hre.ethers.getContractAt("TestExecutor", account);
+        await executor.exec(manager, 0, encodeAccountCall(manager, "setFunctionHandler", ["0x12345678", hre.ethers.ZeroAddress], account));
+
+        const inspection = await hre.run("account:inspect", { account });
+
+        expect(inspection.modules.map((module: { type: string }) => module.type)).to.not.include("function-handler");
+    });
+});
@@ -0,0 +1,97 @@
+import hre, { deployments } from "hardhat";
+import { expect } from "chai";
+import { getRegistry, getSafeProtocolManager } from "../utils/contracts";
+import { getRevertData, PROTOCOL_ERRORS_INTERFACE } from "../../src/utils/errors";
+
+describe("decode-error", async () => {
+    const setupTests = deployments.createFixture(async ({ deployments }) => {
+        await deployments.fixture(["protocol"]);
+        const { owner } = await hre.getNamedAccounts();
+        const registry = (await getRegistry()).connect(await hre.ethers.getSigner(owner));
+        return { registry, manager: await getSafeProtocolManager() };
+    });
+
+    const catchRevertData = async (call: Promise<unknown>): Promise<string> => {
+        try {
+            await call;
+        } catch (error) {
+            return getRevertData(error) as string;
+        }
+        throw new Error("Call did not revert");
+    };
+
+    it("Should decode a custom error with an explanation and a fix", async () => {
+        const { registry } = await setupTests();
+        const module = hre.ethers.Wallet.createRandom().address;
+        const data = await catchRevertData(registry.flagModule.staticCall(module));
+
+        const error = await hre.run("decode-error", { data });
+
+        expect(error.name).to.be.equal("CannotFlagModule");
+        expect(error.signature).to.be.equal("CannotFlagModule(address)");
+        expect(error.args).to.be.deep.equal({ module });
+        expect(error.explanation).to.be.equal(`Module ${module} cannot be flagged because it is not listed or already flagged.`);
+        expect(error.fix).to.be.equal("Check the module address with `registry.check`.");
+    });
+
+    it("Should decode errors of accounts calling the manager directly", async () => {
+        const { manager } = await setupTests();
+        const data = await catchRevertData(manager.setHooks.staticCall(hre.ethers.ZeroAddress));
+
+        const error = await hre.run("decode-error", { data, json: true });
+
+        expect(error.name).to.be.equal("InvalidSender");
+        expect(error.fix).to.include("encodeAccountCall");
+    });
+
+    it("Should decode revert data nested in a revert string", async () => {
+        await setupTests();
+        const plugin = hre.ethers.Wallet.createRandom().address;
+        const nested = PROTOCOL_ERRORS_INTERFACE.encodeErrorResult("ModuleNotPermitted", [plugin, 1, 2, 1]);
+        const mock = await hre.ethers.deployContract("MockContract");
+        await mock.givenAnyRevertWithMessage(nested);
+        const data = await catchRevertData(hre.ethers.provider.call({ to: mock.target, data: "0x12345678" }));
+
+        const error = await hre.run("decode-error", { data });
+
+        expect(error.name).to.be.equal("Error");
+        expect(error.cause.name).to.be.equal("ModuleNotPermitted");
+        expect(error.cause.explanation).to.be.equal(`Module ${plugin} was flagged in the registry at timestamp 2.`);
+        expect(error.cause.fix).to.include("report:flagged-modules");
+    });
+
+    it("Should keep revert data that cannot be decoded", async () => {
+        const error = await hre.run("decode-error", { data: "0xdeadbeef" });
+
+        expect(error).to.include({ name: "Unknown", signature: "unknown error 0xdeadbeef", data: "0xdeadbeef" });
+    });
+
+    it("Should return Unknown for revert data that cannot be decoded instead of throwing", async () => {
+        expect(await hre.run("decode-error", { data: "0x08c379a0" })).to.include({
+            name: "Unknown",
+            signature: "unknown error 0x08c379a0",
+        });
+        expect(await hre.run("decode-error", { data: "0x4e487b71" })).to.include({
+            name: "Unknown",
+            signature: "unknown error 0x4e487b71",
+        });
+        expect(await hre.run("decode-error", { data: "zz" })).to.include({ name: "Unknown", signature: "unknown", data: "zz" });
+    });
+
+    it("Should not decode revert strings that only look like revert data", async () => {
+        const data = PROTOCOL_ERRORS_INTERFACE.encodeErrorResult("Error", ["0x08c379a0ff"]);
+
+        const error = await hre.run("decode-error", { data });
+
+        expect(error).to.include({ name: "Error", explanation: 'Reverted with the reason "0x08c379a0ff".' });
+        expect(error.cause).to.be.undefined;
+    });
+
+    it("Should find the revert data nested in errors of JSON-RPC providers", async () => {
+        const data = PROTOCOL_ERRORS_INTERFACE.encodeErrorResult("ZeroPageSizeNotAllowed", []);
+
+        expect(getRevertData({ info: { error: { message: "execution reverted", data: { data } } } })).to.be.equal(data);
+        expect(getRevertData({ data: "0x", error: { data } })).to.be.equal("0x");
+        expect(getRevertData(new Error("network error"))).to.be.undefined;
+    });
+});
@@ -0,0 +1,59 @@
+import hre, { deployments } from "hardhat";
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { getSafeProtocolManager } from "../utils/contracts";
+import { deployAccountWithModules } from "../utils/accountWithModules";
+import { encodeAccountCall } from "../../src/utils/accountCall";
+import { SENTINEL_MODULES } from "../../src/utils/plugins";
+
+describe("report:flagged-modules", async () => {
+    const file = path.join(os.tmpdir(), `safe-protocol-flagged-${process.pid}.json`);
+
+    const setupTests = deployments.createFixture(async ({ deployments }) => {
+        await deployments.fixture(["protocol"]);
+        const { registry, account, plugins, modules } = await deployAccountWithModules(3);
+        return { registry, account, plugins, modules: Object.values(modules) };
+    });
+
+    afterEach(() => {
+        fs.rmSync(file, { force: true });
+    });
+
+    it("Should not report modules that are not flagged", async () => {
+        await setupTests();
+
+        expect(await hre.run("report:flagged-modules", { file })).to.be.deep.equal([]);
+    });
+
+    it("Should report flagged modules with calldata that removes them", async () => {
+        const { registry, account, plugins, modules } = await setupTests();
+        // The plugins are in reverse order of enabling in the list, so plugins[2] is the predecessor of plugins[1].
+        for (const module of [plugins[2], plugins[1], ...modules]) {
+            await registry.flagModule(module);
+        }
+
+        const remediations = await hre.run("report:flagged-modules", { file, json: true });
+
+        expect(remediations.map((remediation: { type: string }) => remediation.type)).to.be.deep.equal([
+            "plugin",
+            "plugin",
+            "hooks",
+            "function-handler",
+            "signature-validator",
+            "signature-validator-hooks",
+        ]);
+        const manager = await getSafeProtocolManager();
+        expect(remediations[1].transaction.data).to.be.equal(
+            encodeAccountCall(manager, "disablePlugin", [SENTINEL_MODULES, plugins[1]], await account.getAddress()),
+        );
+
+        for (const { transaction } of remediations) {
+            await account.exec(transaction.to, transaction.value, transaction.data);
+        }
+        const inspection = await hre.run("account:inspect", { account: await account.getAddress() });
+        expect(inspection.modules.map((module: { module: string }) => module.module)).to.be.deep.equal([plugins[0]]);
+        expect(await hre.run("report:flagged-modules", { file })).to.be.deep.equal([]);
+    });
+});
@@ -0,0 +1,72 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { generateConstants, parseConstants } from "../../src/tasks/generate_constants";
+import * as constants from "../../src/utils/constants";
+import { runTask } from "../utils/tasks";
+
+describe("generate:constants", async () => {
+    const file = path.join(os.tmpdir(), `safe-protocol-constants-${process.pid}.ts`);
+
+    afterEach(() => {
+        fs.rmSync(file, { force: true });
+    });
+
+    it("Should match the committed constants file", async () => {
+        const committed = fs.readFileSync(path.join(__dirname, "../../src/utils/constants.ts"), "utf8");
+
+        expect(generateConstants()).to.be.equal(committed);
+    });
+
+    it("Should keep deprecated aliases of renamed constants", async () => {
+        expect(constants.PLUGIN_PERMISSION_DELEGATE_CALL).to.be.equal(constants.PLUGIN_PERMISSION_EXECUTE_DELEGATECALL);
+    });
+
+    it("Should parse constants with the comments above them", async () => {
+        const source = ["// SPDX-License-Identifier: LGPL-3.0-only", "// Limits", "uint8 constant A = 1;", "uint256 constant B = 0x10;"];
+
+        expect(parseConstants(source.join("\n"), "Limits.sol")).to.be.deep.equal([
+            { type: "uint8", name: "A", value: "1", comments: ["Limits"] },
+            { type: "uint256", name: "B", value: "0x10", comments: [] },
+        ]);
+    });
+
+    it("Should fail on constant declarations that cannot be parsed", async () => {
+        const multiLine = ["uint8 constant A = 1;", "bytes32 constant B =", "    0x1234;"].join("\n");
+        const unsupportedType = 'string constant NAME = "name";';
+
+        expect(() => parseConstants(multiLine, "Multi.sol")).to.throw(
+            'Cannot parse constant declaration in Multi.sol:2: "bytes32 constant B ="',
+        );
+        expect(() => parseConstants(unsupportedType, "Name.sol")).to.throw("Cannot parse constant declaration in Name.sol:1");
+        expect(parseConstants("// the constant below\n/* constant */", "Comments.sol")).to.be.deep.equal([]);
+    });
+
+    it("Should write the constants file", async () => {
+        const { stdout } = await runTask("generate:constants", { output: file });
+
+        expect(stdout).to.be.equal(`Constants file generated: ${file}`);
+        expect(fs.readFileSync(file, "utf8")).to.be.equal(generateConstants());
+    });
+
+    it("Should fail the check if the constants file is out of date", async () => {
+        fs.writeFileSync(file, generateConstants().replace("MODULE_TYPE_HOOKS: number = 4", "MODULE_TYPE_HOOKS: number = 8"));
+
+        const outdated = await runTask("generate:constants", { output: file, check: true });
+        await runTask("generate:constants", { output: file });
+        const upToDate = await runTask("generate:constants", { output: file, check: true });
+
+        expect(outdated.stderr).to.include(`${file} is out of date`);
+        expect(outdated.exitCode).to.be.equal(1);
+        expect(upToDate.stdout).to.be.equal(`${file} is up to date.`);
+        expect(upToDate.exitCode).to.be.undefined;
+    });
+
+    it("Should fail the check if the constants file is missing", async () => {
+        const { stderr, exitCode } = await runTask("generate:constants", { output: file, check: true });
+
+        expect(stderr).to.include("is out of date");
+        expect(exitCode).to.be.equal(1);
+    });
+});
@@ -0,0 +1,116 @@
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { DeploymentsExport } from "../../src/deployments";
+import { collectEntries, renderCsv } from "../../src/tasks/generate_deployments_markdown";
+import { runTask } from "../utils/tasks";
+
+describe("generate:deployments", async () => {
+    const dir = path.join(os.tmpdir(), `safe-protocol-deployments-${process.pid}`);
+    const registry = "0x0000000000000000000000000000000000000001";
+    const manager = "0x0000000000000000000000000000000000000002";
+
+    const deployments: DeploymentsExport = {
+        "5": [{ name: "goerli", chainId: "5", contracts: { SafeProtocolRegistry: { address: registry, abi: [] } } }],
+        "100": [
+            {
+                name: "gnosis",
+                chainId: "100",
+                contracts: { SafeProtocolRegistry: { address: registry, abi: [] }, SafeProtocolManager: { address: manager, abi: [] } },
+            },
+        ],
+    };
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    it("Should collect the contracts of every network with explorer links", async () => {
+        expect(collectEntries(deployments)).to.be.deep.equal([
+            {
+                network: "goerli",
+                chainId: "5",
+                contracts: [
+                    { name: "SafeProtocolRegistry", address: registry, explorerUrl: `https://goerli.etherscan.io/address/${registry}` },
+                ],
+            },
+            {
+                network: "gnosis",
+                chainId: "100",
+                contracts: [
+                    { name: "SafeProtocolRegistry", address: registry, explorerUrl: `https://gnosisscan.io/address/${registry}` },
+                    { name: "SafeProtocolManager", address: manager, explorerUrl: `https://gnosisscan.io/address/${manager}` },
+                ],
+            },
+        ]);
+    });
+
+    it("Should filter by chainId, network name and contract name", async () => {
+        const networks = (entries: ReturnType<typeof collectEntries>) => entries.map(({ network }) => network);
+
+        expect(networks(collectEntries(deployments, ["5"]))).to.be.deep.equal(["goerli"]);
+        expect(networks(collectEntries(deployments, ["gnosis"]))).to.be.deep.equal(["gnosis"]);
+        expect(networks(collectEntries(deployments, undefined, ["SafeProtocolManager"]))).to.be.deep.equal(["gnosis"]);
+        expect(collectEntries(deployments, ["goerli"], ["SafeProtocolManager"])).to.be.deep.equal([]);
+    });
+
+    it("Should escape CSV values", async () => {
+        const csv = renderCsv([
+            { network: 'test, "local"', chainId: "1", contracts: [{ name: "Registry\nV2", address: registry, explorerUrl: "url" }] },
+        ]);
+
+        expect(csv).to.be.equal(
+            ["network,chainId,contract,address,explorerUrl", `"test, ""local""",1,"Registry\nV2",${registry},url`, ""].join("\n"),
+        );
+    });
+
+    it("Should generate markdown", async () => {
+        const output = path.join(dir, "deployments.md");
+
+        const { stdout } = await runTask("generate:deployments", { output });
+
+        const content = fs.readFileSync(output, "utf8");
+        expect(stdout).to.be.equal(`File with deployed contract addresses generated: ${output}`);
+        expect(content).to.match(/^# Deployed Safe\{Core\} Protocol Contracts\n\n## Network: goerli\n/);
+        expect(content).to.include('| SafeProtocolRegistry | <a href="https://goerli.etherscan.io/address/0x');
+    });
+
+    it("Should generate JSON of the filtered contracts", async () => {
+        const output = path.join(dir, "deployments.json");
+
+        await runTask("generate:deployments", { format: "json", output, chains: "5", contracts: "SafeProtocolRegistry" });
+
+        const [entry, ...others] = JSON.parse(fs.readFileSync(output, "utf8"));
+        expect(others).to.be.empty;
+        expect(entry.network).to.be.equal("goerli");
+        expect(entry.contracts.map(({ name }: { name: string }) => name)).to.be.deep.equal(["SafeProtocolRegistry"]);
+    });
+
+    it("Should generate CSV", async () => {
+        const output = path.join(dir, "deployments.csv");
+
+        await runTask("generate:deployments", { format: "csv", output, contracts: "SafeProtocolManager,SafeProtocolRegistry" });
+
+        const [header, ...rows] = fs.readFileSync(output, "utf8").trimEnd().split("\n");
+        expect(header).to.be.equal("network,chainId,contract,address,explorerUrl");
+        expect(rows.map((row) => row.split(",")[2])).to.be.deep.equal(["SafeProtocolRegistry", "SafeProtocolManager"]);
+    });
+
+    it("Should generate one markdown file per network", async () => {
+        const { stdout } = await runTask("generate:deployments", { format: "markdown-per-network", output: dir });
+
+        expect(stdout).to.be.equal(`Markdown files with deployed contract addresses generated: ${path.join(dir, "goerli.md")}`);
+        expect(fs.readdirSync(dir)).to.be.deep.equal(["goerli.md"]);
+    });
+
+    it("Should reject unknown formats and report filters without matches", async () => {
+        const unknownFormat = await runTask("generate:deployments", { format: "xml", output: dir });
+        const noMatch = await runTask("generate:deployments", { chains: "mainnet", output: path.join(dir, "deployments.md") });
+
+        expect(unknownFormat.stderr).to.be.equal('Unknown format "xml". Valid formats are: markdown, markdown-per-network, json, csv');
+        expect(unknownFormat.exitCode).to.be.equal(1);
+        expect(noMatch.stderr).to.be.equal("No deployments match the given filters.");
+        expect(fs.existsSync(dir)).to.be.false;
+    });
+});
@@ -0,0 +1,132 @@
+import hre, { deployments } from "hardhat";
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { getRegistry, getSafeProtocolManager } from "../utils/contracts";
+import { MODULE_TYPE_PLUGIN, PLUGIN_PERMISSION_EXECUTE_CALL } from "../../src/utils/constants";
+import { getFlaggedModuleExposures, loadIndex } from "../../src/indexer";
+import { encodeAccountCall } from "../../src/utils/accountCall";
+
+describe("indexer:sync", async () => {
+    const file = path.join(os.tmpdir(), `safe-protocol-index-${process.pid}.json`);
+
+    const setupTests = deployments.createFixture(async ({ deployments }) => {
+        await deployments.fixture(["protocol"]);
+        const { owner } = await hre.getNamedAccounts();
+        const manager = await getSafeProtocolManager();
+        const registry = await getRegistry();
+        const account = await (await hre.ethers.getContractFactory("TestExecutor")).deploy(manager.target);
+        const plugin = await (await hre.ethers.getContractFactory("TestPlugin")).deploy();
+        await registry.connect(await hre.ethers.getSigner(owner)).addModule(plugin, MODULE_TYPE_PLUGIN);
+        return { registry, account: await account.getAddress(), plugin: await plugin.getAddress() };
+    });
+
+    afterEach(() => {
+        fs.rmSync(file, { force: true });
+    });
+
+    it("Should materialize the state of accounts and registries", async () => {
+        const { registry, account, plugin } = await setupTests();
+        await hre.run("plugin:enable", { account, plugin, execute: true });
+
+        const { index } = await hre.run("indexer:sync", { file });
+
+        expect(index.state.accounts[account].plugins).to.be.deep.equal({ [plugin]: PLUGIN_PERMISSION_EXECUTE_CALL });
+        expect(index.state.modules[await registry.getAddress()][plugin].addedAtBlock).to.be.greaterThan(0);
+        expect(index.checkpoint.number).to.be.equal(await hre.ethers.provider.getBlockNumber());
+        expect(loadIndex(file)).to.be.deep.equal(index);
+    });
+
+    it("Should track unflagged and delisted modules", async () => {
+        const { registry, plugin } = await setupTests();
+        const registryAddress = await registry.getAddress();
+        await hre.run("registry:flag", { module: plugin });
+        await hre.run("registry:unflag", { module: plugin, reason: "flagged-by-mistake" });
+
+        const { index } = await hre.run("indexer:sync", { file });
+        expect(index.state.modules[registryAddress][plugin].flaggedAtBlock).to.be.undefined;
+        expect(index.events.at(-1).args.reason).to.be.equal(1);
+
+        await hre.run("registry:delist", { module: plugin, reason: "deprecated" });
+        const { index: delisted } = await hre.run("indexer:sync", { file });
+        expect(delisted.state.modules[registryAddress]).to.be.deep.equal({});
+    });
+
+    it("Should index the registry a manager switched to", async () => {
+        const { account, plugin } = await setupTests();
+        const { owner } = await hre.getNamedAccounts();
+        const ownerSigner = await hre.ethers.getSigner(owner);
+        const manager = await getSafeProtocolManager();
+        await hre.run("plugin:enable", { account, plugin, execute: true });
+        await hre.run("indexer:sync", { file });
+
+        const newRegistry = await hre.ethers.deployContract("SafeProtocolRegistry", [owner], ownerSigner);
+        const newRegistryAddress = await newRegistry.getAddress();
+        await newRegistry.addModule(plugin, MODULE_TYPE_PLUGIN);
+        await ownerSigner.sendTransaction({ to: manager, data: encodeAccountCall(manager, "setRegistry", [newRegistryAddress], owner) });
+        await newRegistry.flagModule(plugin);
+
+        const { index } = await hre.run("indexer:sync", { file });
+
+        expect(index.state.registries[await manager.getAddress()]).to.be.equal(newRegistryAddress);
+        expect(index.state.modules[newRegistryAddress][plugin].addedAtBlock).to.be.greaterThan(0);
+        expect(getFlaggedModuleExposures(index)).to.be.deep.equal([
+            {
+                account,
+                type: "plugin",
+                module: plugin,
+                registry: newRegistryAddress,
+                flaggedAtBlock: index.state.modules[newRegistryAddress][plugin].flaggedAtBlock,
+            },
+        ]);
+
+        // The registry is also indexed when the sync resumes.
+        await newRegistry.unflagModule(plugin, 0);
+        const { index: resumed } = await hre.run("indexer:sync", { file });
+        expect(getFlaggedModuleExposures(resumed)).to.be.deep.equal([]);
+    });
+
+    it("Should resume from the checkpoint of an existing index", async () => {
+        const { account, plugin } = await setupTests();
+        await hre.run("plugin:enable", { account, plugin, execute: true });
+        const first = await hre.run("indexer:sync", { file });
+
+        await hre.run("plugin:disable", { account, plugin, execute: true });
+        const second = await hre.run("indexer:sync", { file });
+
+        expect(second.newEvents).to.be.equal(1);
+        expect(second.index.events.length).to.be.equal(first.index.events.length + 1);
+        expect(second.index.events.at(-1).name).to.be.equal("PluginDisabled");
+        expect(second.index.state.accounts[account].plugins).to.be.deep.equal({});
+    });
+
+    it("Should rewind the index when indexed blocks are replaced by a reorg", async () => {
+        const { account, plugin } = await setupTests();
+        await hre.run("indexer:sync", { file });
+        const snapshot = await hre.network.provider.send("evm_snapshot");
+
+        await hre.run("plugin:enable", { account, plugin, execute: true });
+        const indexed = await hre.run("indexer:sync", { file });
+        expect(indexed.index.state.accounts[account].plugins).to.have.property(plugin);
+
+        // Replace the indexed blocks with empty blocks of a different fork.
+        await hre.network.provider.send("evm_revert", [snapshot]);
+        await hre.network.provider.send("hardhat_mine", ["0x2"]);
+
+        const result = await hre.run("indexer:sync", { file });
+
+        expect(result.rewoundTo.number).to.be.lessThan(indexed.index.checkpoint.number);
+        expect(result.index.state.accounts[account]).to.be.undefined;
+        expect(result.index.checkpoint.number).to.be.equal(await hre.ethers.provider.getBlockNumber());
+    });
+
+    it("Should reject an index created for other contracts", async () => {
+        const { account } = await setupTests();
+        await hre.run("indexer:sync", { file });
+
+        await expect(hre.run("indexer:sync", { file, manager: account })).to.be.rejectedWith(
+            `Index ${file} was created for different contracts. Delete it to reindex.`,
+        );
+    });
+});
@@ -0,0 +1,151 @@
+import hre, { deployments } from "hardhat";
+import { expect } from "chai";
+import { getRegistry, getSafeProtocolManager } from "../utils/contracts";
+import { MODULE_TYPE_PLUGIN, PLUGIN_PERMISSION_CALL_TO_SELF, PLUGIN_PERMISSION_EXECUTE_CALL } from "../../src/utils/constants";
+import { SENTINEL_MODULES } from "../utils/constants";
+import {
+    METADATA_PROVIDER_TYPE_CONTRACT,
+    METADATA_PROVIDER_TYPE_EVENT,
+    METADATA_PROVIDER_TYPE_IPFS,
+    resolveModuleMetadata,
+} from "../../src/utils/metadataProvider";
+
+describe("plugin tasks", async () => {
+    const setupTests = deployments.createFixture(async ({ deployments }) => {
+        await deployments.fixture(["protocol"]);
+        const { owner } = await hre.getNamedAccounts();
+        const manager = await getSafeProtocolManager();
+        const registry = await getRegistry();
+        const account = await (await hre.ethers.getContractFactory("TestExecutor")).deploy(await manager.getAddress());
+
+        const plugins = [];
+        for (let i = 0; i < 3; i++) {
+            const plugin = await (await hre.ethers.getContractFactory("TestPlugin")).deploy();
+            await registry.connect(await hre.ethers.getSigner(owner)).addModule(plugin, MODULE_TYPE_PLUGIN);
+            plugins.push(await plugin.getAddress());
+        }
+        return { manager, account: await account.getAddress(), plugins };
+    });
+
+    it("Should build the enable transaction with the permissions required by the plugin and the account suffix", async () => {
+        const { manager, account, plugins } = await setupTests();
+        const plugin = await hre.ethers.getContractAt("TestPlugin", plugins[0]);
+        await plugin.setRequiresPermissions(PLUGIN_PERMISSION_CALL_TO_SELF);
+
+        const transaction = await hre.run("plugin:enable", { account, plugin: plugins[0] });
+
+        expect(transaction.to).to.be.equal(await manager.getAddress());
+        expect(transaction.data).to.be.equal(
+            manager.interface.encodeFunctionData("enablePlugin", [plugins[0], PLUGIN_PERMISSION_CALL_TO_SELF]) +
+                account.slice(2).toLowerCase(),
+        );
+        expect(await manager.isPluginEnabled(account, plugins[0])).to.be.false;
+    });
+
+    it("Should enable and list plugins through a test account", async () => {
+        const { manager, account, plugins } = await setupTests();
+        for (const plugin of plugins) {
+            await hre.run("plugin:enable", { account, plugin, execute: true });
+        }
+
+        // Plugins are inserted after the sentinel, so the list is in reverse order of enabling.
+        expect(await hre.run("plugin:list", { account })).to.be.deep.equal([...plugins].reverse());
+        expect((await manager.getPluginInfo(account, plugins[0])).permissions).to.be.equal(PLUGIN_PERMISSION_EXECUTE_CALL);
+    });
+
+    it("Should resolve the previous plugin when disabling a plugin", async () => {
+        const { manager, account, plugins } = await setupTests();
+        for (const plugin of plugins) {
+            await hre.run("plugin:enable", { account, plugin, execute: true });
+        }
+
+        const transaction = await hre.run("plugin:disable", { account, plugin: plugins[1], execute: true });
+
+        expect(transaction.data).to.be.equal(
+            manager.interface.encodeFunctionData("disablePlugin", [plugins[2], plugins[1]]) + account.slice(2).toLowerCase(),
+        );
+        expect(await hre.run("plugin:list", { account })).to.be.deep.equal([plugins[2], plugins[0]]);
+
+        const last = await hre.run("plugin:disable", { account, plugin: plugins[2], execute: true });
+        expect(last.data).to.be.equal(
+            manager.interface.encodeFunctionData("disablePlugin", [SENTINEL_MODULES, plugins[2]]) + account.slice(2).toLowerCase(),
+        );
+    });
+
+    it("Should fail to disable a plugin that is not enabled", async () => {
+        const { account, plugins } = await setupTests();
+
+        await expect(hre.run("plugin:disable", { account, plugin: plugins[0] })).to.be.rejectedWith(
+            `Plugin ${plugins[0]} is not enabled for account ${account}`,
+        );
+    });
+
+    describe("plugin:metadata", async () => {
+        const metadata = { name: "Recovery", version: "1.0.0", permissions: PLUGIN_PERMISSION_EXECUTE_CALL, appUrl: "https://example.com" };
+        const data = hre.ethers.toUtf8Bytes(JSON.stringify(metadata));
+        const metadataHash = hre.ethers.keccak256(data);
+
+        const setupProvider = async () => {
+            const { plugins } = await setupTests();
+            const plugin = await hre.ethers.getContractAt("TestPlugin", plugins[0]);
+            const provider = await hre.ethers.deployContract("TestMetadataProvider");
+            const location = hre.ethers.AbiCoder.defaultAbiCoder().encode(["address", "bytes32"], [provider.target, metadataHash]);
+            return { plugin, provider, location };
+        };
+
+        it("Should load the metadata from a contract provider", async () => {
+            const { plugin, provider, location } = await setupProvider();
+            await provider.setMetadata(data);
+            await plugin.setMetadataProvider(METADATA_PROVIDER_TYPE_CONTRACT, location);
+
+            expect(await hre.run("plugin:metadata", { module: plugin.target })).to.be.deep.equal(metadata);
+        });
+
+        it("Should load the metadata from an event provider", async () => {
+            const { plugin, provider, location } = await setupProvider();
+            await provider.emitMetadata(data);
+            await plugin.setMetadataProvider(METADATA_PROVIDER_TYPE_EVENT, location);
+
+            expect(await hre.run("plugin:metadata", { module: plugin.target })).to.be.deep.equal(metadata);
+        });
+
+        it("Should reject metadata that does not match the metadata hash", async () => {
+            const { plugin, provider, location } = await setupProvider();
+            await provider.setMetadata(data);
+            const otherHash = hre.ethers.id("other");
+            await plugin.setMetadataProvider(
+                METADATA_PROVIDER_TYPE_CONTRACT,
+                hre.ethers.AbiCoder.defaultAbiCoder().encode(["address", "bytes32"], [provider.target, otherHash]),
+            );
+            await expect(hre.run("plugin:metadata", { module: plugin.target })).to.be.rejectedWith(
+                `Metadata does not match the metadata hash ${otherHash}`,
+            );
+
+            await plugin.setMetadataProvider(METADATA_PROVIDER_TYPE_EVENT, location);
+            await expect(hre.run("plugin:metadata", { module: plugin.target })).to.be.rejectedWith(
+                `No Metadata event for the metadata hash ${metadataHash} emitted by ${provider.target}`,
+            );
+        });
+
+        it("Should load the metadata of a URI with a custom fetcher and validate it", async () => {
+            const { plugin } = await setupProvider();
+            await plugin.setMetadataProvider(
+                METADATA_PROVIDER_TYPE_IPFS,
+                hre.ethers.AbiCoder.defaultAbiCoder().encode(["string"], ["ipfs://bafy"]),
+            );
+            const documents: Record<string, string> = { "ipfs://bafy": JSON.stringify(metadata) };
+            const fetchers = { ipfs: async (uri: string) => documents[uri] };
+
+            expect(await resolveModuleMetadata(hre.ethers.provider, plugin, { fetchers })).to.be.deep.equal(metadata);
+
+            documents["ipfs://bafy"] = JSON.stringify({ ...metadata, permissions: 8 });
+            await expect(resolveModuleMetadata(hre.ethers.provider, plugin, { fetchers })).to.be.rejectedWith(
+                "Invalid metadata document: metadata.permissions must be at most 7",
+            );
+            documents["ipfs://bafy"] = JSON.stringify({ name: "Recovery" });
+            await expect(resolveModuleMetadata(hre.ethers.provider, plugin, { fetchers })).to.be.rejectedWith(
+                "Invalid metadata document: metadata.version is required",
+            );
+        });
+    });
+});
@@ -0,0 +1,160 @@
+import hre, { deployments } from "hardhat";
+import { expect } from "chai";
+import { getRegistry } from "../utils/contracts";
+import { time } from "@nomicfoundation/hardhat-toolbox/network-helpers";
+import { MODULE_TYPE_HOOKS, MODULE_TYPE_PLUGIN } from "../../src/utils/constants";
+import { getListedModules, ListedModule } from "../../src/utils/registry";
+import { runTask } from "../utils/tasks";
+
+describe("registry tasks", async () => {
+    const setupTests = deployments.createFixture(async ({ deployments }) => {
+        await deployments.fixture(["protocol"]);
+        const registry = await getRegistry();
+        const plugin = await (await hre.ethers.getContractFactory("TestPlugin")).deploy();
+        const [, , user] = await hre.ethers.getSigners();
+        return { registry, plugin: await plugin.getAddress(), user };
+    });
+
+    it("Should add a module with the given module types", async () => {
+        const { registry, plugin } = await setupTests();
+
+        const { stdout, exitCode } = await runTask("registry:add", { module: plugin, types: "plugin" });
+
+        expect(stdout).to.match(new RegExp(`^Module ${plugin} added as plugin \\(1\\) in tx 0x[0-9a-f]{64}$`));
+        expect(exitCode).to.be.undefined;
+        expect((await registry.getModuleInfo(plugin)).moduleTypes).to.be.equal(MODULE_TYPE_PLUGIN);
+    });
+
+    it("Should explain that a module is already listed", async () => {
+        const { plugin } = await setupTests();
+        await runTask("registry:add", { module: plugin, types: "plugin" });
+
+        const { stdout, stderr, exitCode } = await runTask("registry:add", { module: plugin, types: "plugin" });
+
+        expect(stdout).to.be.equal("");
+        expect(stderr).to.include(`Module ${plugin} is already listed in the registry.`);
+        expect(exitCode).to.be.equal(1);
+    });
+
+    it("Should flag a listed module and explain that it cannot be flagged again", async () => {
+        const { registry, plugin } = await setupTests();
+        await runTask("registry:add", { module: plugin, types: "plugin" });
+
+        const flagged = await runTask("registry:flag", { module: plugin });
+        const flaggedAgain = await runTask("registry:flag", { module: plugin });
+
+        expect(flagged.stdout).to.match(new RegExp(`^Module ${plugin} flagged in tx 0x[0-9a-f]{64}$`));
+        expect(flagged.exitCode).to.be.undefined;
+        expect((await registry.getModuleInfo(plugin)).flaggedAt).to.be.greaterThan(0);
+        expect(flaggedAgain.stderr).to.include(`Module ${plugin} cannot be flagged`);
+        expect(flaggedAgain.exitCode).to.be.equal(1);
+    });
+
+    it("Should reject accounts that are not the registry owner", async () => {
+        const { registry, plugin, user } = await setupTests();
+
+        const added = await runTask("registry:add", { module: plugin, types: "plugin", from: user.address });
+        const flagged = await runTask("registry:flag", { module: plugin, from: user.address });
+
+        for (const { stdout, stderr, exitCode } of [added, flagged]) {
+            expect(stdout).to.be.equal("");
+            expect(stderr).to.include("Only the registry owner can perform this operation");
+            expect(exitCode).to.be.equal(1);
+        }
+        expect((await registry.getModuleInfo(plugin)).listedAt).to.be.equal(0);
+    });
+
+    it("Should check if a module is permitted for a module type", async () => {
+        const { plugin } = await setupTests();
+        await runTask("registry:add", { module: plugin, types: "plugin" });
+
+        const permitted = await runTask("registry:check", { module: plugin, type: "plugin" });
+        const otherType = await runTask("registry:check", { module: plugin, type: "hooks" });
+
+        expect(permitted.stdout).to.include(`Module:     ${plugin}`).and.to.include("Permitted:  true");
+        expect(permitted.exitCode).to.be.undefined;
+        expect(otherType.stdout).to.include("Listed at:  -").and.to.include("Permitted:  false");
+        expect(otherType.exitCode).to.be.equal(1);
+        await expect(hre.run("registry:check", { module: plugin, type: "plugin,hooks" })).to.be.rejectedWith(
+            'Expected exactly one module type, got "plugin,hooks"',
+        );
+    });
+
+    it("Should display the information about a module", async () => {
+        const { registry, plugin } = await setupTests();
+        await runTask("registry:add", { module: plugin, types: "plugin" });
+
+        const { stdout } = await runTask("registry:info", { module: plugin });
+
+        expect(stdout).to.include(`Registry:     ${await registry.getAddress()}`);
+        expect(stdout).to.include("Module types: plugin (1)");
+        expect(stdout).to.include("Flagged at:   -");
+        expect(stdout).to.match(/Listed at: {4}\d+ \(\d{4}-\d{2}-\d{2}T/);
+    });
+});
+
+describe("registry:list", async () => {
+    const setupTests = deployments.createFixture(async ({ deployments }) => {
+        await deployments.fixture(["protocol"]);
+        const { owner } = await hre.getNamedAccounts();
+        const registry = (await getRegistry()).connect(await hre.ethers.getSigner(owner));
+        const plugins: string[] = [];
+        for (let i = 0; i < 5; i++) {
+            const plugin = await (await hre.ethers.getContractFactory("TestPlugin")).deploy();
+            await registry.addModule(plugin, MODULE_TYPE_PLUGIN);
+            plugins.push(await plugin.getAddress());
+        }
+        return { registry, plugins };
+    });
+
+    it("Should page through all approved plugins", async () => {
+        const { plugins } = await setupTests();
+        const metadata = hre.ethers.id("TestPlugin 1.0.0");
+        await hre.run("registry:set-metadata", { module: plugins[0], metadata });
+
+        const { result: modules } = await runTask<ListedModule[]>("registry:list", { type: "plugin", pageSize: 2 });
+
+        expect(modules.map(({ module }) => module)).to.be.deep.equal([...plugins].reverse());
+        expect(modules[4]).to.include({ module: plugins[0], flaggedAt: 0, moduleTypes: MODULE_TYPE_PLUGIN, metadata });
+        expect(modules[4].listedAt).to.be.greaterThan(0);
+    });
+
+    it("Should skip flagged plugins unless requested", async () => {
+        const { registry, plugins } = await setupTests();
+        await hre.run("registry:flag", { module: plugins[1] });
+
+        const approved = await getListedModules(registry, MODULE_TYPE_PLUGIN, { pageSize: 3 });
+        const { result: all } = await runTask<ListedModule[]>("registry:list", { type: "plugin", includeFlagged: true, json: true });
+
+        expect(approved.map(({ module }) => module)).to.not.include(plugins[1]);
+        expect(approved.length).to.be.equal(4);
+        expect(all.length).to.be.equal(5);
+    });
+
+    it("Should report when a module was listed with the requested module type", async () => {
+        const { registry } = await setupTests();
+        const module = await hre.ethers.deployContract("MockContract");
+        await module.givenMethodReturnBool("0x01ffc9a7", true);
+        await registry.addModule(module, MODULE_TYPE_PLUGIN);
+        await time.increase(60);
+        await registry.updateModuleTypes(module, MODULE_TYPE_HOOKS);
+
+        const [plugin] = await getListedModules(registry, MODULE_TYPE_PLUGIN);
+        const [hooks] = await getListedModules(registry, MODULE_TYPE_HOOKS);
+
+        expect(plugin.module)
+            .to.be.equal(hooks.module)
+            .and.to.be.equal(await module.getAddress());
+        expect(hooks.listedAt).to.be.greaterThan(plugin.listedAt + 59);
+        expect(plugin.listedAt).to.be.equal(Number((await registry.getModuleInfo(module)).listedAt));
+    });
+
+    it("Should only list modules of a single module type", async () => {
+        await setupTests();
+
+        await expect(hre.run("registry:list", { type: "plugin, hooks" })).to.be.rejectedWith(
+            'Expected exactly one module type, got "plugin, hooks"',
+        );
+        await expect(hre.run("registry:list", { type: "" })).to.be.rejectedWith("Expected exactly one module type");
+    });
+});
@@ -0,0 +1,66 @@
+import hre from "hardhat";
+import { expect } from "chai";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { CodeSize } from "../../src/tasks/show_codesize";
+import { runTask } from "../utils/tasks";
+
+describe("codesize", async () => {
+    const baseline = path.join(os.tmpdir(), `safe-protocol-codesize-${process.pid}.json`);
+
+    before(async () => {
+        await hre.run("compile", { quiet: true });
+    });
+
+    afterEach(() => {
+        fs.rmSync(baseline, { force: true });
+    });
+
+    it("Should report the sizes of the production contracts", async () => {
+        const { result: sizes } = await runTask<CodeSize[]>("codesize", { skipcompile: true, baseline });
+
+        const registry = sizes.find(({ name }) => name === "SafeProtocolRegistry");
+        const { deployedBytecode, bytecode } = await hre.artifacts.readArtifact("SafeProtocolRegistry");
+        expect(registry).to.be.deep.equal({
+            name: "SafeProtocolRegistry",
+            source: "contracts/SafeProtocolRegistry.sol",
+            deployedSize: (deployedBytecode.length - 2) / 2,
+            initcodeSize: (bytecode.length - 2) / 2,
+        });
+        expect(sizes.every(({ source }) => source.startsWith("contracts/") && !source.startsWith("contracts/test/"))).to.be.true;
+        expect(sizes.map(({ name }) => name)).to.not.include("ModuleInterfaceChecker");
+    });
+
+    it("Should include test contracts if requested", async () => {
+        const { result: sizes } = await runTask<CodeSize[]>("codesize", { skipcompile: true, baseline, includeTests: true });
+
+        expect(sizes.map(({ name }) => name)).to.include("TestPlugin");
+    });
+
+    it("Should print the sizes of a single contract as json", async () => {
+        const { stdout } = await runTask("codesize", { skipcompile: true, baseline, contractname: "SafeProtocolManager", json: true });
+
+        const sizes = JSON.parse(stdout);
+        expect(sizes.map(({ name }: CodeSize) => name)).to.be.deep.equal(["SafeProtocolManager"]);
+    });
+
+    it("Should write the baseline and report the deltas to it", async () => {
+        await runTask("codesize", { skipcompile: true, baseline, writeBaseline: true });
+        const written = JSON.parse(fs.readFileSync(baseline, "utf8"));
+        written.SafeProtocolRegistry.deployedSize -= 10;
+        fs.writeFileSync(baseline, JSON.stringify(written));
+
+        const { result: sizes, stdout } = await runTask<CodeSize[]>("codesize", { skipcompile: true, baseline });
+
+        const registry = sizes.find(({ name }) => name === "SafeProtocolRegistry");
+        expect(registry).to.include({ deployedSizeDelta: 10, initcodeSizeDelta: 0 });
+        expect(stdout).to.match(/^SafeProtocolRegistry \d+ \(\+10\) bytes \(limit is 24576\), initcode \d+ \(\+0\) bytes/m);
+    });
+
+    it("Should fail for contracts exceeding the limit", async () => {
+        await expect(
+            runTask("codesize", { skipcompile: true, baseline, contractname: "SafeProtocolRegistry", failOver: 100 }),
+        ).to.be.rejectedWith("Contracts exceeding the code size limits: SafeProtocolRegistry");
+    });
+});
@@ -0,0 +1,95 @@
+import hre, { deployments } from "hardhat";
+import { expect } from "chai";
+import { getRegistry, getSafeProtocolManager } from "../utils/contracts";
+import { getHooksWithFailingPrechecks } from "../utils/mockHooksBuilder";
+import { encodeAccountCall } from "../../src/utils/accountCall";
+import {
+    MODULE_TYPE_HOOKS,
+    MODULE_TYPE_PLUGIN,
+    PLUGIN_PERMISSION_CALL_TO_SELF,
+    PLUGIN_PERMISSION_EXECUTE_CALL,
+} from "../../src/utils/constants";
+import { simulateTransaction } from "../../src/simulator";
+
+describe("tx:simulate", async () => {
+    const setupTests = deployments.createFixture(async ({ deployments }) => {
+        await deployments.fixture(["protocol"]);
+        const { owner } = await hre.getNamedAccounts();
+        const [, , user1] = await hre.ethers.getSigners();
+        const manager = await getSafeProtocolManager();
+        const registry = (await getRegistry()).connect(await hre.ethers.getSigner(owner));
+        const account = await (await hre.ethers.getContractFactory("TestExecutor")).deploy(manager.target);
+        await account.setModule(manager);
+        const plugin = await (await hre.ethers.getContractFactory("TestPlugin")).deploy();
+        await registry.addModule(plugin, MODULE_TYPE_PLUGIN);
+        await hre.run("plugin:enable", { account: await account.getAddress(), plugin: await plugin.getAddress(), execute: true });
+        return { manager, registry, account: await account.getAddress(), plugin: await plugin.getAddress(), recipient: user1.address };
+    });
+
+    it("Should simulate a transaction with state overrides without changing the state", async () => {
+        const { account, plugin, recipient } = await setupTests();
+        const stateOverrides = { [account]: { balance: hre.ethers.parseEther("1").toString() } };
+
+        const result = await hre.run("tx:simulate", {
+            plugin,
+            account,
+            to: recipient,
+            value: hre.ethers.parseEther("1").toString(),
+            stateOverrides,
+        });
+
+        expect(result).to.be.deep.equal({ success: true, returnData: ["0x"] });
+        expect(await hre.ethers.provider.getBalance(account)).to.be.equal(0n);
+    });
+
+    it("Should decode a failing action and the error of the action", async () => {
+        const { account, plugin } = await setupTests();
+        const target = await hre.ethers.deployContract("MockContract");
+        await target.givenAnyRevertWithMessage("action failed");
+
+        const { success, error } = await hre.run("tx:simulate", { plugin, account, to: target.target, data: "0x12345678" });
+
+        expect(success).to.be.false;
+        expect(error.name).to.be.equal("ActionExecutionFailed");
+        expect(error.args).to.be.deep.equal({ account, metadataHash: hre.ethers.ZeroHash, index: 0n });
+        expect(error.actionError.args.reason).to.be.equal("action failed");
+    });
+
+    it("Should decode missing permissions and plugins that are not enabled or permitted", async () => {
+        const { registry, account, plugin, recipient } = await setupTests();
+
+        const selfCall = await hre.run("tx:simulate", { plugin, account, to: account });
+        expect(selfCall.error.name).to.be.equal("MissingPluginPermission");
+        expect(selfCall.error.args).to.be.deep.equal({
+            plugin,
+            pluginRequires: BigInt(PLUGIN_PERMISSION_EXECUTE_CALL),
+            requiredPermission: BigInt(PLUGIN_PERMISSION_CALL_TO_SELF),
+            givenPermission: BigInt(PLUGIN_PERMISSION_EXECUTE_CALL),
+        });
+
+        const notEnabled = await hre.run("tx:simulate", { plugin: recipient, account, to: recipient });
+        expect(notEnabled.error).to.include({ name: "PluginNotEnabled" });
+
+        await registry.flagModule(plugin);
+        const flagged = await hre.run("tx:simulate", { plugin, account, to: recipient });
+        expect(flagged.error.name).to.be.equal("ModuleNotPermitted");
+        expect(flagged.error.args.moduleType).to.be.equal(BigInt(MODULE_TYPE_PLUGIN));
+    });
+
+    it("Should decode revert strings of hooks", async () => {
+        const { manager, registry, account, plugin, recipient } = await setupTests();
+        const hooks = await getHooksWithFailingPrechecks();
+        await registry.addModule(hooks, MODULE_TYPE_HOOKS);
+        const testExecutor = await hre.ethers.getContractAt("TestExecutor", account);
+        await testExecutor.exec(manager, 0, encodeAccountCall(manager, "setHooks", [hooks.target], account));
+
+        const result = await simulateTransaction(hre.ethers.provider, manager, plugin, account, {
+            actions: [{ to: recipient, value: 0n, data: "0x" }],
+            nonce: 0n,
+            metadataHash: hre.ethers.ZeroHash,
+        });
+
+        expect(result.success).to.be.false;
+        expect(!result.success && result.error.args).to.be.deep.equal({ reason: "pre-check failed" });
+    });
+});
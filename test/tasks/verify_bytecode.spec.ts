@@ -0,0 +1,56 @@
+import hre, { deployments } from "hardhat";
+import { expect } from "chai";
+import { ZeroAddress } from "ethers";
+
+describe("deployments:verify-bytecode", async () => {
+    const setupTests = deployments.createFixture(async ({ deployments }) => {
+        await deployments.fixture(["protocol"]);
+    });
+
+    it("Should report a match for every contract deployed with the protocol deploy script", async () => {
+        await setupTests();
+        const results = await hre.run("deployments:verify-bytecode", { source: "network", skipcompile: true });
+
+        expect(results.map((result: { name: string }) => result.name)).to.include.members([
+            "SafeProtocolRegistry",
+            "SafeProtocolManager",
+            "SignatureValidatorManager",
+        ]);
+        for (const result of results) {
+            expect(result.status).to.be.equal("match");
+            expect(result.metadataMatches).to.be.true;
+        }
+    });
+
+    it("Should ignore immutables when comparing the deployed code", async () => {
+        await setupTests();
+        const [deployer, receiver] = await hre.ethers.getSigners();
+        await deployments.deploy("TestFallbackReceiver", { from: deployer.address, args: [receiver.address] });
+
+        const [result] = await hre.run("deployments:verify-bytecode", {
+            source: "network",
+            contracts: "TestFallbackReceiver",
+            skipcompile: true,
+        });
+        expect(result.status).to.be.equal("match");
+    });
+
+    it("Should fail when the code at the recorded address does not match the artifact", async () => {
+        await setupTests();
+        const registry = await deployments.get("SafeProtocolRegistry");
+        await deployments.save("SafeProtocolManager", { address: registry.address, abi: [] });
+
+        await expect(hre.run("deployments:verify-bytecode", { source: "network", skipcompile: true })).to.be.rejectedWith(
+            "Bytecode drift detected for: SafeProtocolManager",
+        );
+    });
+
+    it("Should fail when there is no code at the recorded address", async () => {
+        await setupTests();
+        await deployments.save("SafeProtocolManager", { address: ZeroAddress, abi: [] });
+
+        await expect(
+            hre.run("deployments:verify-bytecode", { source: "network", contracts: "SafeProtocolManager", skipcompile: true }),
+        ).to.be.rejectedWith("Bytecode drift detected for: SafeProtocolManager");
+    });
+});
@@ -0,0 +1,42 @@
+import hre, { deployments } from "hardhat";
+import { expect } from "chai";
+
+describe("verify:reproducible", async () => {
+    const setupTests = deployments.createFixture(async ({ deployments }) => {
+        await deployments.fixture(["protocol"]);
+    });
+
+    it("Should reproduce the artifacts and the deployments of the production contracts", async () => {
+        await setupTests();
+        const results = await hre.run("verify:reproducible", { source: "network", skipcompile: true });
+
+        expect(results.map((result: { name: string }) => result.name)).to.be.deep.equal([
+            "SafeProtocolManager",
+            "SafeProtocolRegistry",
+            "SignatureValidatorManager",
+        ]);
+        for (const result of results) {
+            expect(result.compilerVersion).to.match(/^0\.8\.18\+commit\./);
+            expect(result.artifact).to.be.equal("match");
+            expect(result.deployment).to.be.equal("match");
+        }
+    });
+
+    it("Should report contracts without a recorded deployment as not deployed", async () => {
+        const [result] = await hre.run("verify:reproducible", { contracts: "SafeProtocolRegistry", skipcompile: true });
+
+        expect(result.artifact).to.be.equal("match");
+        expect(result.deployment).to.be.equal("not-deployed");
+        expect(result.address).to.be.undefined;
+    });
+
+    it("Should fail when the deployed code was not built from the source", async () => {
+        await setupTests();
+        const registry = await deployments.get("SafeProtocolRegistry");
+        await deployments.save("SafeProtocolManager", { address: registry.address, abi: [] });
+
+        await expect(
+            hre.run("verify:reproducible", { source: "network", contracts: "SafeProtocolManager", skipcompile: true }),
+        ).to.be.rejectedWith("Build could not be reproduced for: SafeProtocolManager");
+    });
+});
@@ -0,0 +1,71 @@
+import hre from "hardhat";
+import { getRegistry, getSafeProtocolManager, getSignatureValidatorManager } from "./contracts";
+import { getMockFunctionHandler } from "./mockFunctionHandlerBuilder";
+import { getHooksWithPassingChecks } from "./mockHooksBuilder";
+import { getMockSignatureValidationHooks } from "./mockValidationHooksBuilder";
+import { encodeAccountCall } from "../../src/utils/accountCall";
+import { encodeModuleTypes } from "../../src/utils/bitmask";
+
+/**
+ * Deploys a TestExecutor account that has the given number of plugins and a module of every other module type
+ * configured, all of them listed in the deployed registry. The protocol contracts have to be deployed already.
+ */
+export const deployAccountWithModules = async (pluginCount = 1) => {
+    const { owner } = await hre.getNamedAccounts();
+    const manager = await getSafeProtocolManager();
+    const signatureValidatorManager = await getSignatureValidatorManager();
+    const registry = (await getRegistry()).connect(await hre.ethers.getSigner(owner));
+    const account = await (await hre.ethers.getContractFactory("TestExecutor")).deploy(manager.target);
+    const accountAddress = await account.getAddress();
+
+    const plugins: string[] = [];
+    for (let i = 0; i < pluginCount; i++) {
+        const plugin = await (await hre.ethers.getContractFactory("TestPlugin")).deploy();
+        await registry.addModule(plugin, encodeModuleTypes(["plugin"]));
+        await hre.run("plugin:enable", { account: accountAddress, plugin: await plugin.getAddress(), execute: true });
+        plugins.push(await plugin.getAddress());
+    }
+
+    const hooks = await getHooksWithPassingChecks();
+    await registry.addModule(hooks, encodeModuleTypes(["hooks"]));
+    await account.exec(manager, 0, encodeAccountCall(manager, "setHooks", [hooks.target], accountAddress));
+
+    const functionHandler = await getMockFunctionHandler();
+    await registry.addModule(functionHandler, encodeModuleTypes(["function-handler"]));
+    await account.exec(
+        manager,
+        0,
+        encodeAccountCall(manager, "setFunctionHandler", ["0x12345678", functionHandler.target], accountAddress),
+    );
+
+    const signatureValidator = await hre.ethers.deployContract("MockContract");
+    await signatureValidator.givenMethodReturnBool("0x01ffc9a7", true);
+    await registry.addModule(signatureValidator, encodeModuleTypes(["signature-validator"]));
+    const domainSeparator = hre.ethers.keccak256("0x1234");
+    await account.exec(
+        signatureValidatorManager,
+        0,
+        signatureValidatorManager.interface.encodeFunctionData("setSignatureValidator", [domainSeparator, signatureValidator.target]),
+    );
+
+    const signatureValidatorHooks = await getMockSignatureValidationHooks();
+    await registry.addModule(signatureValidatorHooks, encodeModuleTypes(["signature-validator-hooks"]));
+    await account.exec(
+        signatureValidatorManager,
+        0,
+        signatureValidatorManager.interface.encodeFunctionData("setSignatureValidatorHooks", [signatureValidatorHooks.target]),
+    );
+
+    return {
+        registry,
+        account,
+        plugins,
+        modules: {
+            hooks: await hooks.getAddress(),
+            functionHandler: await functionHandler.getAddress(),
+            signatureValidator: await signatureValidator.getAddress(),
+            signatureValidatorHooks: await signatureValidatorHooks.getAddress(),
+        },
+        domainSeparator,
+    };
+};
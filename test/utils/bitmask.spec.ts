@@ -0,0 +1,66 @@
+import { expect } from "chai";
+import {
+    decodeModuleTypes,
+    decodePermissions,
+    encodeModuleTypes,
+    encodePermissions,
+    formatModuleTypes,
+    formatPermissions,
+    MAX_MODULE_TYPES,
+    MAX_PLUGIN_PERMISSIONS,
+    parseModuleTypes,
+    parsePermissions,
+} from "../../src/utils/bitmask";
+
+describe("bitmask", async () => {
+    it("Should encode and decode module types", async () => {
+        expect(encodeModuleTypes(["plugin", "hooks"])).to.be.equal(5);
+        expect(encodeModuleTypes([])).to.be.equal(0);
+        expect(decodeModuleTypes(5)).to.be.deep.equal(["plugin", "hooks"]);
+        expect(decodeModuleTypes(BigInt(MAX_MODULE_TYPES))).to.be.deep.equal([
+            "plugin",
+            "function-handler",
+            "hooks",
+            "signature-validator-hooks",
+            "signature-validator",
+        ]);
+        expect(parseModuleTypes(" plugin, function-handler ,")).to.be.equal(3);
+    });
+
+    it("Should encode and decode plugin permissions", async () => {
+        expect(encodePermissions(["execute-call", "call-to-self"])).to.be.equal(3);
+        expect(decodePermissions(6n)).to.be.deep.equal(["call-to-self", "delegate-call"]);
+        expect(parsePermissions("delegate-call")).to.be.equal(4);
+    });
+
+    it("Should reject module types and permissions above the maximum", async () => {
+        expect(MAX_MODULE_TYPES).to.be.equal(31);
+        expect(() => decodeModuleTypes(32)).to.throw("Invalid module types 32. Value must be an integer between 0 and 31");
+        expect(() => decodeModuleTypes(-1)).to.throw("Invalid module types -1");
+        expect(() => decodePermissions(MAX_PLUGIN_PERMISSIONS + 1)).to.throw(
+            "Invalid plugin permissions 8. Value must be an integer between 0 and 7",
+        );
+    });
+
+    it("Should reject unknown names", async () => {
+        expect(() => encodeModuleTypes(["plugin", "module"])).to.throw('Unknown module type "module"');
+        expect(() => parseModuleTypes("plugins")).to.throw(
+            'Unknown module type "plugins". Valid values are: plugin, function-handler, hooks, signature-validator-hooks, signature-validator',
+        );
+        expect(() => parsePermissions("call")).to.throw('Unknown plugin permission "call"');
+    });
+
+    it("Should reject values that are not integers", async () => {
+        expect(() => decodeModuleTypes(1.5)).to.throw("Invalid module types 1.5");
+        expect(() => decodeModuleTypes(NaN)).to.throw("Invalid module types NaN");
+        expect(() => decodePermissions(Infinity)).to.throw("Invalid plugin permissions Infinity");
+    });
+
+    it("Should format bitmasks for logs", async () => {
+        expect(formatModuleTypes(5)).to.be.equal("plugin | hooks (5)");
+        expect(formatModuleTypes(0n)).to.be.equal("none (0)");
+        expect(formatPermissions(3)).to.be.equal("execute-call | call-to-self (3)");
+        expect(formatPermissions(0)).to.be.equal("none (0)");
+        expect(() => formatModuleTypes(64)).to.throw("Invalid module types 64");
+    });
+});
@@ -1,11 +1,17 @@
 import { AddressLike } from "ethers";
-import { SafeRootAccess, SafeTransaction } from "./dataTypes";
+import { SafeRootAccess, SafeTransaction } from "../../src/utils/dataTypes";
+import { hashMetadataDocument, MetadataDocument } from "../../src/utils/metadata";
+
+const toMetadataHash = (metadata: Uint8Array | string | MetadataDocument): Uint8Array | string => {
+    return typeof metadata === "string" || metadata instanceof Uint8Array ? metadata : hashMetadataDocument(metadata);
+};
+
 export const buildSingleTx = (
     address: AddressLike,
     value: bigint,
     data: string,
     nonce: bigint,
-    metadataHash: Uint8Array | string,
+    metadataHash: Uint8Array | string | MetadataDocument,
 ): SafeTransaction => {
     return {
         actions: [
@@ -16,7 +22,7 @@ export const buildSingleTx = (
             },
         ],
         nonce: nonce,
-        metadataHash: metadataHash,
+        metadataHash: toMetadataHash(metadataHash),
     };
 };
 
@@ -25,7 +31,7 @@ export const buildRootTx = (
     value: bigint,
     data: string,
     nonce: bigint,
-    metadataHash: Uint8Array | string,
+    metadataHash: Uint8Array | string | MetadataDocument,
 ): SafeRootAccess => {
     return {
         action: {
@@ -34,6 +40,6 @@ export const buildRootTx = (
             data: data,
         },
         nonce: nonce,
-        metadataHash: metadataHash,
+        metadataHash: toMetadataHash(metadataHash),
     };
 };
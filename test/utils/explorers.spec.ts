@@ -0,0 +1,47 @@
+import { expect } from "chai";
+import {
+    getAddressUrl,
+    getExplorer,
+    getSupportedExplorerChainIds,
+    getTokenUrl,
+    getTxUrl,
+    registerExplorer,
+} from "../../src/utils/explorers";
+import { ETHERSCAN_GOERLI_BASE_URL, NETWORK_ID_URL_MAPPING } from "../../src/utils/etherscan_urls";
+
+describe("explorers", async () => {
+    const address = "0x0000000000000000000000000000000000000001";
+    const txHash = `0x${"ab".repeat(32)}`;
+
+    it("Should know the explorers of the configured networks", async () => {
+        expect(getSupportedExplorerChainIds()).to.include.members([1, 5, 56, 100, 137, 4002, 42161, 43114, 80001]);
+        expect(getExplorer(137)).to.be.deep.equal({ name: "PolygonScan", url: "https://polygonscan.com" });
+        expect(getExplorer("100")).to.be.equal(getExplorer(100n));
+    });
+
+    it("Should build address, tx and token URLs", async () => {
+        expect(getAddressUrl(1, address)).to.be.equal(`https://etherscan.io/address/${address}`);
+        expect(getTxUrl(5n, txHash)).to.be.equal(`https://goerli.etherscan.io/tx/${txHash}`);
+        expect(getTokenUrl("42161", address)).to.be.equal(`https://arbiscan.io/token/${address}`);
+    });
+
+    it("Should throw for chains without an explorer", async () => {
+        expect(() => getAddressUrl(999999, address)).to.throw("No block explorer registered for chainId 999999");
+    });
+
+    it("Should register explorers of custom chains", async () => {
+        registerExplorer(424242, { name: "Custom", url: "https://explorer.example.org//" });
+
+        expect(getExplorer(424242)).to.be.deep.equal({ name: "Custom", url: "https://explorer.example.org" });
+        expect(getTxUrl(424242, txHash)).to.be.equal(`https://explorer.example.org/tx/${txHash}`);
+        expect(getSupportedExplorerChainIds()).to.include(424242);
+
+        registerExplorer(424242, { name: "Replaced", url: "https://replaced.example.org" });
+        expect(getExplorer(424242).name).to.be.equal("Replaced");
+    });
+
+    it("Should keep the deprecated Etherscan URL exports", async () => {
+        expect(ETHERSCAN_GOERLI_BASE_URL).to.be.equal("https://goerli.etherscan.io");
+        expect(NETWORK_ID_URL_MAPPING[5]).to.be.equal(ETHERSCAN_GOERLI_BASE_URL);
+    });
+});
@@ -0,0 +1,43 @@
+import { expect } from "chai";
+import { keccak256, toUtf8Bytes, ZeroAddress } from "ethers";
+import { canonicalizeJson, createMetadataDocument, hashMetadataDocument } from "../../src/utils/metadata";
+import { SafeTransactionBuilder } from "../../src/utils/transactionBuilder";
+
+describe("metadata", async () => {
+    it("Should sort object keys by their UTF-16 code units", async () => {
+        expect(canonicalizeJson({ b: 1, a: [{ d: null, c: true }], e: undefined })).to.be.equal('{"a":[{"c":true,"d":null}],"b":1}');
+        // U+1F600 is encoded as the surrogate pair D83D DE00, which sorts before U+FFFF.
+        expect(canonicalizeJson({ "\uffff": 1, "\u{1f600}": 2 })).to.be.equal('{"\u{1f600}":2,"\uffff":1}');
+    });
+
+    it("Should reject values without a canonical representation", async () => {
+        expect(() => canonicalizeJson(1n)).to.throw("Cannot canonicalize a value of type bigint");
+        expect(() => canonicalizeJson(Infinity)).to.throw("Cannot canonicalize the non-finite number Infinity");
+    });
+
+    it("Should create the same document for the same input", async () => {
+        const input = { plugin: ZeroAddress, intent: "Ping", createdAt: 1 };
+        const actions = [{ to: ZeroAddress, value: 0n, data: "0x12345678ab" }];
+
+        const document = await createMetadataDocument(input, actions);
+
+        expect(document).to.be.deep.equal({
+            version: 1,
+            plugin: ZeroAddress,
+            intent: "Ping",
+            actions: [{ to: ZeroAddress, value: "0", selector: "0x12345678" }],
+            createdAt: 1,
+        });
+        expect(hashMetadataDocument(await createMetadataDocument(input, actions))).to.be.equal(hashMetadataDocument(document));
+    });
+
+    it("Should hash the canonical JSON of plain metadata passed to the builder", async () => {
+        const build = (metadata: object) => new SafeTransactionBuilder().action(ZeroAddress).metadata(metadata).build();
+
+        const safeTx = await build({ description: "Pay invoice", amount: "1" });
+
+        expect(safeTx.metadataHash).to.be.equal(keccak256(toUtf8Bytes('{"amount":"1","description":"Pay invoice"}')));
+        expect((await build({ amount: "1", description: "Pay invoice" })).metadataHash).to.be.equal(safeTx.metadataHash);
+        expect(() => new SafeTransactionBuilder().metadata({ amount: 1n })).to.throw("Cannot canonicalize a value of type bigint");
+    });
+});
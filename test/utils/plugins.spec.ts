@@ -0,0 +1,37 @@
+import hre, { deployments } from "hardhat";
+import { expect } from "chai";
+import { getSafeProtocolManager } from "./contracts";
+import { deployAccountWithModules } from "./accountWithModules";
+import { encodeAccountCall } from "../../src/utils/accountCall";
+import { findPrevPlugin, getAllPlugins, SENTINEL_MODULES } from "../../src/utils/plugins";
+
+describe("plugins", async () => {
+    const setupTests = deployments.createFixture(async ({ deployments }) => {
+        await deployments.fixture(["protocol"]);
+        const { account, plugins } = await deployAccountWithModules(5);
+        return { account: await account.getAddress(), plugins, manager: await getSafeProtocolManager() };
+    });
+
+    it("Should page through all enabled plugins", async () => {
+        const { account, plugins, manager } = await setupTests();
+
+        expect(await getAllPlugins(manager, account, 2)).to.be.deep.equal([...plugins].reverse());
+        expect(await getAllPlugins(manager, account, 5)).to.be.deep.equal([...plugins].reverse());
+    });
+
+    it("Should find the previous plugin on a later page", async () => {
+        const { account, plugins, manager } = await setupTests();
+
+        // The list is in reverse order of enabling, plugins[1] is the fourth entry and on the second page.
+        const prevPlugin = await findPrevPlugin(manager, account, plugins[1], 2);
+        expect(prevPlugin).to.be.equal(plugins[2]);
+        expect(await findPrevPlugin(manager, account, plugins[4], 2)).to.be.equal(SENTINEL_MODULES);
+        await expect(findPrevPlugin(manager, account, hre.ethers.ZeroAddress, 2)).to.be.rejectedWith(
+            `Plugin ${hre.ethers.ZeroAddress} is not enabled for account ${account}`,
+        );
+
+        const executor = await hre.ethers.getContractAt("TestExecutor", account);
+        await executor.exec(manager, 0, encodeAccountCall(manager, "disablePlugin", [prevPlugin, plugins[1]], account));
+        expect(await getAllPlugins(manager, account, 2)).to.be.deep.equal([plugins[4], plugins[3], plugins[2], plugins[0]]);
+    });
+});
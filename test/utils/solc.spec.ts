@@ -0,0 +1,87 @@
+import { expect } from "chai";
+import crypto from "crypto";
+import fs from "fs";
+import os from "os";
+import path from "path";
+import { keccak256 } from "ethers";
+import { TASK_COMPILE_SOLIDITY_GET_SOLC_BUILD } from "hardhat/builtin-tasks/task-names";
+import hre from "hardhat";
+import { loadSolc } from "../../src/utils/solc";
+
+describe("loadSolc", async () => {
+    const dir = path.join(os.tmpdir(), `safe-protocol-solc-${process.pid}`);
+    const soljson = "soljson-test.js";
+    let content: Buffer;
+
+    // Builds are looked up by version, unique versions keep the builds of the tests apart in the compiler cache of loadSolc.
+    const writeList = (version: string, checksums: { keccak256?: string; sha256?: string }) => {
+        const build = { path: soljson, version, longVersion: version, ...checksums };
+        fs.writeFileSync(path.join(dir, "list.json"), JSON.stringify({ builds: [build] }));
+    };
+
+    before(async () => {
+        // The soljson build of the project if Hardhat uses one, otherwise the build bundled with the solc package.
+        const { compilerPath, isSolcJs } = await hre.run(TASK_COMPILE_SOLIDITY_GET_SOLC_BUILD, { quiet: true, solcVersion: "0.8.18" });
+        content = fs.readFileSync(isSolcJs ? compilerPath : require.resolve("solc/soljson.js"));
+    });
+
+    beforeEach(() => {
+        fs.mkdirSync(dir, { recursive: true });
+        fs.writeFileSync(path.join(dir, soljson), content);
+    });
+
+    afterEach(() => {
+        fs.rmSync(dir, { recursive: true, force: true });
+        delete process.env.SOLC_CACHE_DIR;
+    });
+
+    it("Should load a verified build from SOLC_CACHE_DIR without leaving process handlers behind", async () => {
+        writeList("0.0.1-cache-dir", {
+            keccak256: keccak256(content),
+            sha256: `0x${crypto.createHash("sha256").update(content).digest("hex")}`,
+        });
+        process.env.SOLC_CACHE_DIR = dir;
+        const uncaughtExceptionListeners = process.listenerCount("uncaughtException");
+        const unhandledRejectionListeners = process.listenerCount("unhandledRejection");
+
+        const solc = await loadSolc("0.0.1-cache-dir", { offline: true });
+
+        expect(solc.version()).to.match(/^0\.\d+\.\d+\+commit\./);
+        expect(process.listenerCount("uncaughtException")).to.be.equal(uncaughtExceptionListeners);
+        expect(process.listenerCount("unhandledRejection")).to.be.equal(unhandledRejectionListeners);
+    });
+
+    it("Should reject builds that do not match the checksums", async () => {
+        writeList("0.0.2-keccak256", { keccak256: keccak256("0x1234") });
+        await expect(loadSolc("0.0.2-keccak256", { cacheDir: dir, offline: true })).to.be.rejectedWith(
+            `keccak256 checksum of ${path.join(dir, soljson)} does not match ${path.join(dir, "list.json")}`,
+        );
+
+        writeList("0.0.2-sha256", { sha256: `0x${"00".repeat(32)}` });
+        await expect(loadSolc("0.0.2-sha256", { cacheDir: dir, offline: true })).to.be.rejectedWith("sha256 checksum of");
+    });
+
+    it("Should reject builds without a checksum", async () => {
+        writeList("0.0.3-no-checksum", {});
+
+        await expect(loadSolc("0.0.3-no-checksum", { cacheDir: dir, offline: true })).to.be.rejectedWith(
+            `No checksum for solc 0.0.3-no-checksum in ${path.join(dir, "list.json")}`,
+        );
+    });
+
+    it("Should load a verified build from the compilers directory of Hardhat", async () => {
+        writeList("0.0.5-compilers-dir", { keccak256: keccak256(content) });
+
+        const solc = await loadSolc("0.0.5-compilers-dir", { compilersDir: dir, offline: true });
+
+        expect(solc.version()).to.match(/^0\.\d+\.\d+\+commit\./);
+    });
+
+    it("Should fail in offline mode if the build is not on disk", async () => {
+        writeList("0.0.4-other", { keccak256: keccak256(content) });
+
+        await expect(loadSolc("0.0.4-missing", { cacheDir: dir, offline: true })).to.be.rejectedWith(
+            new RegExp(`^solc 0\\.0\\.4-missing not found in ${dir}.* and offline mode is enabled`),
+        );
+    });
+});
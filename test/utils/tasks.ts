@@ -0,0 +1,30 @@
+import hre from "hardhat";
+
+export interface TaskOutput<T> {
+    result: T;
+    stdout: string;
+    stderr: string;
+    exitCode: number | undefined;
+}
+
+/**
+ * Runs a Hardhat task and captures what it prints and the exit code it sets. The exit code of the process is
+ * restored afterwards so that a failing task does not fail the test run.
+ */
+export const runTask = async <T = unknown>(name: string, taskArgs: Record<string, unknown> = {}): Promise<TaskOutput<T>> => {
+    const { log, error } = console;
+    const exitCode = process.exitCode;
+    const stdout: string[] = [];
+    const stderr: string[] = [];
+    console.log = (...args: unknown[]) => stdout.push(args.join(" "));
+    console.error = (...args: unknown[]) => stderr.push(args.join(" "));
+    process.exitCode = undefined;
+    try {
+        const result = (await hre.run(name, taskArgs)) as T;
+        return { result, stdout: stdout.join("\n"), stderr: stderr.join("\n"), exitCode: process.exitCode };
+    } finally {
+        console.log = log;
+        console.error = error;
+        process.exitCode = exitCode;
+    }
+};